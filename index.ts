@@ -4,241 +4,931 @@
  * Provides tools to query and manage HomeBox inventory
  */
 
+import { readFile } from "node:fs/promises";
+import { extname, join, resolve } from "node:path";
 import type { MoltbotPluginApi } from "openclaw/plugin-sdk";
-import { HomeBoxClient } from "./src/client.js";
+import {
+  HomeBoxApiError,
+  HomeBoxClient,
+  LocationResolutionError,
+  UPDATABLE_ITEM_FIELDS,
+  diffItems,
+  getItemField,
+  matchesAllFilters,
+  setItemField,
+  type HomeBoxItemPatch,
+  type HomeBoxItem,
+  type HomeBoxLabel,
+  type ItemFilters,
+  type LocationTree,
+} from "./src/client.js";
+import { extractComponentValues } from "./src/components.js";
+import { mapWithConcurrency } from "./src/concurrency.js";
+import {
+  CONFIG_SCHEMA,
+  PLUGIN_ID,
+  loadSettings,
+  type HoardSettings,
+  type InstanceSettings,
+} from "./src/config.js";
+import { ConfirmationStore } from "./src/confirmations.js";
+import { findDuplicateCandidates } from "./src/duplicates.js";
+import { daysUntil, expiryEntries, type ExpiryEntry } from "./src/expiry.js";
+import { renderExport, type ExportFormat } from "./src/export.js";
+import {
+  IMPORT_FIELDS,
+  detectFormat,
+  listImports,
+  newImportRunId,
+  planImport,
+  readRecords,
+  rollbackImport,
+  runImport,
+  type ImportFormat,
+  type RollbackResult,
+} from "./src/importer.js";
+import {
+  Journal,
+  currentId,
+  describeEntry,
+  undoEntry,
+  type JournalChange,
+  type JournalEntry,
+  type UndoOutcome,
+} from "./src/journal.js";
+import {
+  DEFAULT_LABEL_LAYOUT,
+  LABEL_LAYOUTS,
+  formatAssetId,
+  hoardUri,
+  parseAssetId,
+  renderLabelsPdf,
+  renderLabelsSvg,
+  type Label,
+} from "./src/labels.js";
+import {
+  LoanLedger,
+  ON_LOAN_LOCATION,
+  daysOverdue,
+  itemLoan,
+  withItemLoan,
+  type Loan,
+} from "./src/loans.js";
+import {
+  OUTPUT_FORMATS,
+  type ItemPayload,
+  itemPayload,
+  labelPayload,
+  locationPayload,
+  renderToolResult,
+  type ToolResult,
+} from "./src/results.js";
+import { ItemSearchIndex, explainMatch } from "./src/search-index.js";
+import { writeTextFile } from "./src/storage.js";
+import {
+  ThresholdStore,
+  effectiveThreshold,
+  suggestedReorderQuantity,
+  withItemThreshold,
+} from "./src/thresholds.js";
+
+/**
+ * JSON schema properties for the editable fields of an item, shared by the
+ * add and update tools so both accept the same fields.
+ */
+const itemFieldProperties = {
+  name: {
+    type: "string",
+    description: "Item name",
+  },
+  quantity: {
+    type: "number",
+    description: "Quantity",
+  },
+  description: {
+    type: "string",
+    description: "Item description",
+  },
+  locationId: {
+    type: "string",
+    description: "Where the item is stored: a location ID, name, or path (e.g., 'Garage/Shelf 3')",
+  },
+  notes: {
+    type: "string",
+    description: "Additional notes or comments",
+  },
+  serialNumber: {
+    type: "string",
+    description: "Serial number or asset ID",
+  },
+  modelNumber: {
+    type: "string",
+    description: "Model number or identifier",
+  },
+  manufacturer: {
+    type: "string",
+    description: "Manufacturer name",
+  },
+  insured: {
+    type: "boolean",
+    description: "Whether item is insured",
+  },
+  archived: {
+    type: "boolean",
+    description: "Archive item (hidden from normal search)",
+  },
+  lifetimeWarranty: {
+    type: "boolean",
+    description: "Whether item has lifetime warranty",
+  },
+  warrantyExpires: {
+    type: "string",
+    description: "Warranty expiration date (YYYY-MM-DD format)",
+  },
+  warrantyDetails: {
+    type: "string",
+    description: "Warranty coverage details",
+  },
+  purchaseTime: {
+    type: "string",
+    description: "Date item was purchased (YYYY-MM-DD format)",
+  },
+  purchaseFrom: {
+    type: "string",
+    description: "Where item was purchased (store, seller, etc.)",
+  },
+  purchasePrice: {
+    type: "number",
+    description: "Purchase price",
+  },
+  tagIds: {
+    type: "array",
+    items: { type: "string" },
+    description: "Array of tag IDs to assign",
+  },
+  labels: {
+    type: "array",
+    items: { type: "string" },
+    description: "Label (tag) names to assign, e.g. ['ESD-sensitive', 'SMD']; combined with tagIds",
+  },
+  parentId: {
+    type: "string",
+    description: "Parent item ID (for nested/bundled items)",
+  },
+};
+
+function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "(empty)";
+  if (Array.isArray(value)) return value.length === 0 ? "(empty)" : value.join(", ");
+  return String(value);
+}
+
+/**
+ * Turn a thrown error into a short, actionable message for the agent
+ */
+function describeError(error: unknown): string {
+  if (error instanceof HomeBoxApiError) {
+    const detail = error.detail ? `: ${error.detail}` : "";
+    if (error.timedOut) {
+      return `HomeBox did not respond in time (${error.method} ${error.endpoint}). Check that the server is reachable and try again`;
+    }
+    if (error.status === undefined) {
+      return `Could not reach HomeBox (${error.message}). Check baseUrl and that the server is running`;
+    }
+    if (error.status === 401 || error.status === 403) {
+      return `HomeBox rejected the credentials (${error.status}). Check the plugin's token or username and password`;
+    }
+    if (error.status === 404) {
+      return `Not found (${error.method} ${error.endpoint}). Check the ID with homebox_search or homebox_get_locations`;
+    }
+    if (error.status < 500) {
+      return `HomeBox rejected the request (${error.status})${detail}. Check the values passed`;
+    }
+    return `HomeBox server error (${error.status})${detail}. Try again shortly`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Full path of an item's location ("Garage › Shelf 3"), falling back to the
+ * bare name if the location isn't in the tree
+ */
+function itemLocationPath(locationTree: LocationTree, item: HomeBoxItem): string {
+  return locationTree.path(item.location?.id ?? item.locationId) || item.location?.name || "Unknown";
+}
+
+/**
+ * The largest asset number in use. Newer HomeBox versions send asset IDs in
+ * search summaries; only older ones need every item's full record.
+ */
+async function highestAssetId(client: HomeBoxClient): Promise<number> {
+  let items = await client.getAllItems({ includeArchived: true });
+  if (!items.some((item) => "assetId" in item)) items = await client.getItemDetails(items);
+  return Math.max(0, ...items.map((item) => parseAssetId(item.assetId)));
+}
+
+/**
+ * One search-result style line: name, ID, quantity, location path and labels
+ */
+function formatItemLine(locationTree: LocationTree, item: HomeBoxItem): string {
+  const labels = item.labels?.length
+    ? ` [labels: ${item.labels.map((label) => label.name).join(", ")}]`
+    : "";
+  return `• ${item.name}${item.archived ? " [archived]" : ""} (ID: ${item.id}) (qty: ${item.quantity}) @ ${itemLocationPath(locationTree, item)}${labels}`;
+}
+
+function toolError(action: string, error: unknown): ToolResult {
+  return {
+    content: [{ type: "text", text: `✗ Failed to ${action}: ${describeError(error)}` }],
+    payload: { ok: false, error: describeError(error) },
+  };
+}
+
+/**
+ * Parameter shared by tools that accept a location path, allowing it to be
+ * created on the fly
+ */
+const createMissingLocationProperty = {
+  type: "boolean",
+  description:
+    "Create any missing segments of the location path (e.g., 'Garage/Shelf 9' creates 'Shelf 9' under 'Garage')",
+};
+
+/**
+ * Journal entries for locations created on the fly by resolveLocation
+ */
+function createdLocationChanges(locationTree: LocationTree, created: string[]): JournalChange[] {
+  return created.map((id) => ({
+    operation: "location.create",
+    target: { type: "location", id, name: locationTree.path(id) },
+    after: { id, name: locationTree.name(id) },
+  }));
+}
+
+function createdLabelChanges(created: HomeBoxLabel[]): JournalChange[] {
+  return created.map((label) => ({
+    operation: "label.create",
+    target: { type: "label", id: label.id, name: label.name },
+    after: label,
+  }));
+}
+
+const createMissingLabelsProperty = {
+  type: "boolean",
+  description: "Create any labels named in `labels` that don't exist yet",
+};
+
+/** "\n• Created location: Garage › Shelf 9" lines for newly created locations */
+function createdLocationsNote(locationTree: LocationTree, created: string[]): string {
+  return created
+    .map((id) => `\n• Created location: ${locationTree.path(id) || id}`)
+    .join("");
+}
+
+/**
+ * Tools that change HomeBox or plugin-local data. With `readOnly` set these
+ * are not registered at all, so the agent can't even attempt them.
+ */
+const MUTATING_TOOLS = new Set([
+  "homebox_add_item",
+  "homebox_attach_file",
+  "homebox_delete_item",
+  "homebox_remove_attachment",
+  "homebox_create_location",
+  "homebox_update_location",
+  "homebox_delete_location",
+  "homebox_update_item",
+  "homebox_adjust_quantity",
+  "homebox_move_items",
+  "homebox_merge_items",
+  "homebox_create_label",
+  "homebox_update_label",
+  "homebox_delete_label",
+  "homebox_set_threshold",
+  "homebox_import",
+  "homebox_import_rollback",
+  "homebox_undo",
+  "homebox_checkout",
+  "homebox_checkin",
+  "homebox_generate_labels",
+]);
+
+const formatProperty = {
+  type: "string",
+  enum: OUTPUT_FORMATS,
+  description:
+    "How to return the result: 'verbose' text (default), 'compact' text with one line per item, location or label, or 'json' for only the structured payload",
+};
+
+const confirmationTokenProperty = {
+  type: "string",
+  description:
+    "Token from a previous preview call. Leave it out first to see what will be deleted; pass it back to actually delete",
+};
+
+/** Trailing line of a deletion preview, telling the agent how to confirm */
+function confirmationPrompt(tool: string, token: string, ttlMinutes: number): string {
+  return `\n\nNothing has been deleted yet. To confirm, call ${tool} again with confirmationToken "${token}" (valid for ${ttlMinutes} minutes, once).`;
+}
 
 const plugin = {
-  id: "homebox",
+  id: PLUGIN_ID,
   name: "HomeBox Integration",
   description: "Query and manage HomeBox inventory",
-  configSchema: {
-    type: "object",
-    properties: {
-      baseUrl: {
-        type: "string",
-        description: "HomeBox server URL",
-        default: "http://localhost:3100",
-      },
-      username: {
-        type: "string",
-        description: "HomeBox username",
-      },
-      password: {
-        type: "string",
-        description: "HomeBox password",
-      },
-    },
-    required: ["username", "password"],
-  },
+  configSchema: CONFIG_SCHEMA,
 
   register(api: MoltbotPluginApi) {
-    let client: HomeBoxClient | null = null;
-
-    // Initialize client from plugin config or environment
-    function getClient(): HomeBoxClient {
-      if (client) return client;
-
-      // Try plugin config first, then environment variables
-      const pluginCfg = api.pluginConfig as any;
-      const baseUrl =
-        pluginCfg?.baseUrl ||
-        process.env.HOMEBOX_URL ||
-        "http://localhost:3100";
-      const username =
-        pluginCfg?.username || process.env.HOMEBOX_USERNAME;
-      const password =
-        pluginCfg?.password || process.env.HOMEBOX_PASSWORD;
-
-      if (!username || !password) {
+    // Validated up front so a bad config is reported when the plugin loads
+    let settings: HoardSettings;
+    try {
+      settings = loadSettings(api.pluginConfig);
+    } catch (error) {
+      api.logger?.error(describeError(error));
+      throw error;
+    }
+
+    /** Pick an instance by name (case-insensitive), or the default one */
+    function getInstance(name?: string): InstanceSettings {
+      const wanted = (name?.trim() || settings.defaultInstance).toLowerCase();
+      const match = settings.instances.find((instance) => instance.name.toLowerCase() === wanted);
+      if (!match) {
         throw new Error(
-          "HomeBox plugin requires username and password (set in openclaw.json under plugins.entries.homebox.config or HOMEBOX_USERNAME/HOMEBOX_PASSWORD environment variables)"
+          `Unknown HomeBox instance "${name}". Configured instances: ${settings.instances.map((instance) => instance.name).join(", ")}`
         );
       }
+      return match;
+    }
 
-      client = new HomeBoxClient({
-        baseUrl,
-        username,
-        password,
-      });
+    const clients = new Map<string, HomeBoxClient>();
 
+    // One client per instance, created on first use
+    function getClient(instanceName?: string): HomeBoxClient {
+      const instance = getInstance(instanceName);
+      const existing = clients.get(instance.name);
+      if (existing) return existing;
+
+      const { credentials } = instance;
+      const client = new HomeBoxClient({
+        baseUrl: instance.baseUrl,
+        ...(credentials.type === "token"
+          ? { token: credentials.token }
+          : { username: credentials.username, password: credentials.password }),
+        timeoutMs: instance.timeoutMs,
+        maxRetries: instance.maxRetries,
+        locationCacheTtlMs: instance.locationCacheTtlMs,
+      });
+      clients.set(instance.name, client);
       return client;
     }
 
-    // Tool 1: Search HomeBox inventory
-    api.registerTool({
-      name: "homebox_search",
-      description:
-        "Search HomeBox inventory by keyword (e.g., resistor, capacitor, TL072) - returns full item details",
-      parameters: {
-        type: "object",
-        properties: {
-          query: {
-            type: "string",
-            description: "What to search for",
-          },
-        },
-        required: ["query"],
-      },
-      async execute(_id, params: { query: string }) {
-        const client = getClient();
-        const items = await client.searchItemsExtended(params.query);
+    /**
+     * Plugin-local files (thresholds, import manifests, journal) live here.
+     * Each entry of an `instances` list gets its own subdirectory.
+     */
+    function getDataDir(instanceName?: string): string {
+      return settings.multiInstance
+        ? join(settings.dataDir, getInstance(instanceName).name)
+        : settings.dataDir;
+    }
 
-        const text =
-          items.length === 0
-            ? "No items found."
-            : `Found ${items.length} items:\n${items
-                .map(
-                  (item) =>
-                    `• ${item.name} (ID: ${item.id}) (qty: ${item.quantity}) @ ${item.location?.name || "Unknown"}${item.description ? `: ${item.description}` : ""}`
-                )
-                .join("\n")}`;
+    const thresholdStores = new Map<string, ThresholdStore>();
 
-        return {
-          content: [{ type: "text", text }],
-        };
-      },
-    });
+    function getThresholdStore(instanceName?: string): ThresholdStore {
+      const dataDir = getDataDir(instanceName);
+      if (!thresholdStores.has(dataDir)) {
+        thresholdStores.set(dataDir, new ThresholdStore(join(dataDir, "thresholds.json")));
+      }
+      return thresholdStores.get(dataDir)!;
+    }
 
-    // Tool 2: Get available locations
-    api.registerTool({
-      name: "homebox_get_locations",
-      description: "List all available locations/bins in HomeBox",
-      parameters: {
-        type: "object",
-        properties: {},
-        required: [],
-      },
-      async execute(_id) {
-        const client = getClient();
-        const locations = await client.getLocations();
+    const loanLedgers = new Map<string, LoanLedger>();
+
+    function getLoanLedger(instanceName?: string): LoanLedger {
+      const dataDir = getDataDir(instanceName);
+      if (!loanLedgers.has(dataDir)) {
+        loanLedgers.set(dataDir, new LoanLedger(join(dataDir, "loans.json")));
+      }
+      return loanLedgers.get(dataDir)!;
+    }
 
-        const text =
-          locations.length === 0
-            ? "No locations found."
-            : `Available locations:\n${locations.map((loc) => `• ${loc.name} (${loc.id})`).join("\n")}`;
+    const journals = new Map<string, Journal>();
 
-        return {
-          content: [{ type: "text", text }],
-        };
-      },
-    });
+    function getJournal(instanceName?: string): Journal {
+      const dataDir = getDataDir(instanceName);
+      if (!journals.has(dataDir)) journals.set(dataDir, new Journal(join(dataDir, "journal.jsonl")));
+      return journals.get(dataDir)!;
+    }
 
-    // Tool 3: Add item to HomeBox
-    api.registerTool({
-      name: "homebox_add_item",
-      description: "Add a new item to HomeBox inventory",
+    /**
+     * Append a tool call's changes to the instance's audit journal. HomeBox has
+     * already been changed by then, so a journal failure is reported rather
+     * than thrown.
+     */
+    async function record(
+      instanceName: string | undefined,
+      tool: string,
+      callId: string,
+      changes: Parameters<Journal["append"]>[2]
+    ): Promise<string> {
+      try {
+        await getJournal(instanceName).append(tool, callId, changes);
+        return "";
+      } catch (error) {
+        api.logger?.warn(`hoard: could not write the audit journal: ${describeError(error)}`);
+        return `\n⚠ Not recorded in the audit journal: ${describeError(error)}`;
+      }
+    }
+
+    const searchIndexes = new Map<string, ItemSearchIndex>();
+
+    // Local fuzzy index per instance, built on the first fuzzy search
+    function getSearchIndex(instanceName?: string): ItemSearchIndex {
+      const name = getInstance(instanceName).name;
+      if (!searchIndexes.has(name)) {
+        searchIndexes.set(
+          name,
+          new ItemSearchIndex(getClient(name), { ttlMs: getInstance(name).searchIndexTtlMs })
+        );
+      }
+      return searchIndexes.get(name)!;
+    }
+
+    // The instance's index if one has been built, to keep it current after changes
+    function builtSearchIndex(instanceName?: string): ItemSearchIndex | undefined {
+      return searchIndexes.get(getInstance(instanceName).name);
+    }
+
+    // Full records of every unarchived item, by name. The index re-fetches only
+    // items changed since its last sync instead of one request per item.
+    async function currentItemDetails(instanceName?: string): Promise<HomeBoxItem[]> {
+      const index = getSearchIndex(instanceName);
+      await index.ensureFresh(0);
+      return index
+        .allItems()
+        .filter((item) => !item.archived)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    // Every tool takes an optional instance; the description names the configured ones
+    const instanceProperty = {
+      type: "string",
+      description: `Which HomeBox instance to use: ${settings.instances.map((instance) => instance.name).join(", ")} (default: ${settings.defaultInstance})`,
+    };
+
+    const confirmations = new ConfirmationStore();
+
+    // readOnly and allowedTools decide which tools the agent gets to see
+    const readOnly = settings.readOnly;
+    const allowedTools = settings.allowedTools ? new Set(settings.allowedTools) : null;
+    const registeredTools = new Set<string>();
+
+    // The instance a call ran against, for its payload (unknown names fail in the tool itself)
+    function payloadInstance(name: string | undefined): string | undefined {
+      try {
+        return getInstance(name).name;
+      } catch {
+        return undefined;
+      }
+    }
+
+    /**
+     * Register a tool unless readOnly/allowedTools leave it out. Every tool
+     * gets a `format` parameter (`resultFormat` where the tool already has a
+     * file `format`); its result is rendered here from the text and payload
+     * the tool returns.
+     */
+    function registerTool(tool: Parameters<MoltbotPluginApi["registerTool"]>[0]): void {
+      if (readOnly && MUTATING_TOOLS.has(tool.name)) return;
+      if (allowedTools && !allowedTools.has(tool.name)) return;
+      registeredTools.add(tool.name);
+      const perInstance = "instance" in (tool.parameters.properties ?? {});
+      // Import and export already take a file `format`
+      const formatKey = "format" in (tool.parameters.properties ?? {}) ? "resultFormat" : "format";
+      api.registerTool({
+        ...tool,
+        parameters: {
+          ...tool.parameters,
+          properties: { ...tool.parameters.properties, [formatKey]: formatProperty },
+        },
+        async execute(id: string, params: any) {
+          const result: ToolResult = await tool.execute(id, params);
+          const format = OUTPUT_FORMATS.includes(params?.[formatKey])
+            ? params[formatKey]
+            : "verbose";
+          return renderToolResult(
+            tool.name,
+            result,
+            format,
+            perInstance ? payloadInstance(params?.instance) : undefined
+          );
+        },
+      });
+    }
+
+    // Tool 1: Search HomeBox inventory
+    registerTool({
+      name: "homebox_search",
+      description:
+        "Search HomeBox inventory by keyword (e.g., resistor, capacitor, TL072) and/or structured filters (location, labels, manufacturer, quantity, purchase date) - returns full item details",
       parameters: {
         type: "object",
         properties: {
-          name: {
+          query: {
             type: "string",
-            description: "Item name",
-          },
-          quantity: {
-            type: "number",
-            description: "Quantity",
+            description: "What to search for (optional when other filters are given)",
           },
-          description: {
+          mode: {
             type: "string",
-            description: "Item description",
+            enum: ["keyword", "fuzzy"],
+            description:
+              "'keyword' (default) uses HomeBox's search; 'fuzzy' uses a local index that tolerates typos and word order (e.g., 'ball peen hammer' finds 'Hammer, peen') and explains each match",
           },
           locationId: {
             type: "string",
-            description: "Location ID where item is stored",
+            description:
+              "Only items in this location or any location nested inside it (ID, name, or path like 'Garage/Shelf 3')",
           },
-          notes: {
-            type: "string",
-            description: "Additional notes or comments",
+          labels: {
+            type: "array",
+            items: { type: "string" },
+            description: "Only items carrying all of these labels (names or IDs)",
           },
-          serialNumber: {
-            type: "string",
-            description: "Serial number or asset ID",
+          labelIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "Only items carrying all of these label/tag IDs",
           },
-          modelNumber: {
+          archived: {
             type: "string",
-            description: "Model number or identifier",
+            enum: ["exclude", "include", "only"],
+            description: "Archived items: 'exclude' (default), 'include', or 'only'",
           },
           manufacturer: {
             type: "string",
-            description: "Manufacturer name",
+            description: "Only items whose manufacturer contains this text",
           },
-          insured: {
-            type: "boolean",
-            description: "Whether item is insured",
+          modelNumber: {
+            type: "string",
+            description: "Only items whose model number contains this text",
           },
-          archived: {
-            type: "boolean",
-            description: "Archive item (hidden from normal search)",
+          minQuantity: {
+            type: "number",
+            description: "Only items with at least this quantity",
           },
-          lifetimeWarranty: {
-            type: "boolean",
-            description: "Whether item has lifetime warranty",
+          maxQuantity: {
+            type: "number",
+            description: "Only items with at most this quantity",
           },
-          warrantyExpires: {
+          purchasedAfter: {
             type: "string",
-            description: "Warranty expiration date (YYYY-MM-DD format)",
+            description: "Only items purchased on or after this date (YYYY-MM-DD)",
           },
-          warrantyDetails: {
+          purchasedBefore: {
             type: "string",
-            description: "Warranty coverage details",
+            description: "Only items purchased on or before this date (YYYY-MM-DD)",
           },
-          purchaseTime: {
+          sortBy: {
             type: "string",
-            description: "Date item was purchased (YYYY-MM-DD format)",
+            enum: ["name", "quantity", "createdAt", "updatedAt"],
+            description: "Sort results by this field",
           },
-          purchaseFrom: {
+          sortOrder: {
             type: "string",
-            description: "Where item was purchased (store, seller, etc.)",
+            enum: ["asc", "desc"],
+            description: "Sort direction (default: asc)",
           },
-          purchasePrice: {
+          limit: {
             type: "number",
-            description: "Purchase price",
+            description: "Maximum number of results to return (default: 25, max: 100)",
           },
-          tagIds: {
-            type: "array",
-            items: { type: "string" },
-            description: "Array of tag IDs to assign",
+          offset: {
+            type: "number",
+            description: "Number of results to skip, for paging through large result sets (default: 0)",
           },
-          parentId: {
+          instance: instanceProperty,
+        },
+        required: [],
+      },
+      async execute(_id, params: any) {
+        try {
+          const client = getClient(params.instance);
+          const limit = Math.min(Math.max(params.limit ?? 25, 1), 100);
+          const offset = Math.max(params.offset ?? 0, 0);
+          const locationId = params.locationId
+            ? (await client.resolveLocation(params.locationId)).id
+            : undefined;
+          const filters: ItemFilters = {
+            query: params.query,
+            locationIds: locationId ? [locationId] : undefined,
+            includeSubLocations: true,
+            labelIds: [
+              ...(params.labelIds ?? []),
+              ...(params.labels?.length ? (await client.resolveLabels(params.labels)).ids : []),
+            ],
+            archived: params.archived,
+            manufacturer: params.manufacturer,
+            modelNumber: params.modelNumber,
+            minQuantity: params.minQuantity,
+            maxQuantity: params.maxQuantity,
+            purchasedAfter: params.purchasedAfter,
+            purchasedBefore: params.purchasedBefore,
+            sortBy: params.sortBy,
+            sortOrder: params.sortOrder,
+          };
+          const locationTree = await client.getLocationHierarchy();
+
+          if (params.mode === "fuzzy") {
+            if (!params.query) {
+              return {
+                content: [{ type: "text", text: "✗ Fuzzy search needs a query" }],
+              };
+            }
+
+            const index = getSearchIndex(params.instance);
+            await index.ensureFresh();
+            const locationIds = filters.locationIds
+              ? new Set(await client.expandLocationIds(filters.locationIds))
+              : undefined;
+            const matches = index
+              .search(params.query)
+              .filter((match) => matchesAllFilters(match.item, filters, locationIds));
+            const page = matches.slice(offset, offset + limit);
+
+            const more =
+              offset + page.length < matches.length
+                ? `\nMore results available: call again with offset ${offset + page.length}`
+                : "";
+            const text =
+              page.length === 0
+                ? "No items found."
+                : `Showing ${page.length} of ${matches.length} fuzzy matches:\n${page
+                    .map(
+                      ({ item, reasons }) =>
+                        `${formatItemLine(locationTree, item)}\n  matched: ${explainMatch(reasons)}`
+                    )
+                    .join("\n")}${more}`;
+
+            return {
+              content: [{ type: "text", text }],
+              payload: {
+                items: page.map(({ item }) => itemPayload(locationTree, item)),
+                data: {
+                  total: matches.length,
+                  offset,
+                  nextOffset: more ? offset + page.length : undefined,
+                  matchedOn: page.map(({ item, reasons }) => ({
+                    id: item.id,
+                    explanation: explainMatch(reasons),
+                  })),
+                },
+              },
+            };
+          }
+
+          // "10k resistor" should also find "10kΩ" and "10000 ohm": match values
+          // by magnitude locally and only send the remaining words to HomeBox
+          if (params.query) {
+            const { values, remainder } = extractComponentValues(params.query);
+            if (values.length > 0) {
+              filters.query = remainder || undefined;
+              filters.componentValues = values;
+            }
+          }
+
+          const { items, total, truncated } = await client.findItems(filters, { limit, offset });
+
+          // An unknown total means paging stopped at the limit with more to come
+          const shown =
+            items.length === total
+              ? `Found ${total} items`
+              : `Showing ${items.length} of ${total ?? `${offset + items.length}+`} results (${offset + 1}–${offset + items.length})`;
+          const more =
+            total === undefined || offset + items.length < total
+              ? `\nMore results available: call again with offset ${offset + items.length}`
+              : "";
+
+          const text =
+            items.length === 0
+              ? total
+                ? `No results at offset ${offset} (${total} total).`
+                : "No items found."
+              : `${shown}:\n${items
+                  .map(
+                    (item) =>
+                      `${formatItemLine(locationTree, item)}${item.description ? `: ${item.description}` : ""}`
+                  )
+                  .join("\n")}${more}`;
+
+          return {
+            content: [{ type: "text", text }],
+            payload: {
+              items: items.map((item) => itemPayload(locationTree, item)),
+              data: {
+                total,
+                offset,
+                nextOffset: more ? offset + items.length : undefined,
+                truncated: truncated || undefined,
+              },
+            },
+          };
+        } catch (error) {
+          return toolError("search inventory", error);
+        }
+      },
+    });
+
+    // Tool 2: Get available locations
+    registerTool({
+      name: "homebox_get_locations",
+      description:
+        "List all locations/bins in HomeBox as an indented tree with item counts (nested locations appear under their parent)",
+      parameters: {
+        type: "object",
+        properties: {
+          instance: instanceProperty,
+        },
+        required: [],
+      },
+      async execute(_id, params: { instance?: string }) {
+        try {
+          const client = getClient(params.instance);
+          const locationTree = await client.getLocationHierarchy({ maxAgeMs: 0 });
+
+          const text =
+            locationTree.size === 0
+              ? "No locations found."
+              : `Available locations:\n${locationTree.render()}`;
+
+          return {
+            content: [{ type: "text", text }],
+            payload: {
+              locations: locationTree.allIds().map((id) => locationPayload(locationTree, id)),
+            },
+          };
+        } catch (error) {
+          return toolError("list locations", error);
+        }
+      },
+    });
+
+    // Tool 3: Add item to HomeBox
+    registerTool({
+      name: "homebox_add_item",
+      description:
+        "Add a new item to HomeBox inventory. Checks for likely duplicates first and returns them instead of creating unless allowDuplicate is set",
+      parameters: {
+        type: "object",
+        properties: {
+          ...itemFieldProperties,
+          createMissingLocation: createMissingLocationProperty,
+          createMissingLabels: createMissingLabelsProperty,
+          allowDuplicate: {
+            type: "boolean",
+            description: "Create the item even if likely duplicates exist",
+          },
+          onDuplicate: {
             type: "string",
-            description: "Parent item ID (for nested/bundled items)",
+            enum: ["report", "increment"],
+            description:
+              "What to do when a likely duplicate exists: 'report' (default) lists the candidates without creating; 'increment' adds this quantity to the best match instead",
           },
+          instance: instanceProperty,
         },
         required: ["name", "quantity"],
       },
-      async execute(_id, params: any) {
-        const client = getClient();
-        const created = await client.createItem({
-          name: params.name,
-          quantity: params.quantity,
-          description: params.description,
-          locationId: params.locationId,
-          notes: params.notes,
-          serialNumber: params.serialNumber,
-          modelNumber: params.modelNumber,
-          manufacturer: params.manufacturer,
-          insured: params.insured,
-          archived: params.archived,
-          lifetimeWarranty: params.lifetimeWarranty,
-          warrantyExpires: params.warrantyExpires,
-          warrantyDetails: params.warrantyDetails,
-          purchaseTime: params.purchaseTime,
-          purchaseFrom: params.purchaseFrom,
-          purchasePrice: params.purchasePrice,
-          tagIds: params.tagIds,
-          parentId: params.parentId,
-        });
-
-        const text = `✓ Added to HomeBox:\n• Name: ${created.name}\n• Quantity: ${created.quantity}\n• Location: ${created.location?.name || "Unknown"}`;
-
-        return {
-          content: [{ type: "text", text }],
-        };
+      async execute(callId, params: any) {
+        try {
+          const client = getClient(params.instance);
+          // Missing locations are only created once it's certain the item will be
+          let locationId: string | undefined;
+          if (params.locationId) {
+            try {
+              locationId = (await client.resolveLocation(params.locationId)).id;
+            } catch (error) {
+              const missing =
+                error instanceof LocationResolutionError && error.candidates.length === 0;
+              if (!missing || !params.createMissingLocation) throw error;
+            }
+          }
+          const item: HomeBoxItem = {
+            name: params.name,
+            quantity: params.quantity,
+            description: params.description,
+            locationId,
+            notes: params.notes,
+            serialNumber: params.serialNumber,
+            modelNumber: params.modelNumber,
+            manufacturer: params.manufacturer,
+            insured: params.insured,
+            archived: params.archived,
+            lifetimeWarranty: params.lifetimeWarranty,
+            warrantyExpires: params.warrantyExpires,
+            warrantyDetails: params.warrantyDetails,
+            purchaseTime: params.purchaseTime,
+            purchaseFrom: params.purchaseFrom,
+            purchasePrice: params.purchasePrice,
+            tagIds: params.tagIds,
+            parentId: params.parentId,
+          };
+
+          let locationTree = await client.getLocationHierarchy();
+
+          if (!params.allowDuplicate) {
+            const candidates = await findDuplicateCandidates(client, item);
+
+            if (candidates.length > 0 && params.onDuplicate === "increment") {
+              const best = candidates[0];
+              const result = await client.adjustQuantity(best.item.id!, item.quantity, {
+                reason: `added "${item.name}" (duplicate of this item)`,
+              });
+              builtSearchIndex(params.instance)?.upsert(result.item);
+              const warning = await record(params.instance, "homebox_add_item", callId, [
+                {
+                  operation: "item.adjust",
+                  target: { type: "item", id: result.item.id!, name: result.item.name },
+                  before: { quantity: result.previousQuantity },
+                  after: { quantity: result.newQuantity },
+                },
+              ]);
+
+              const text = `✓ Added to existing item ${result.item.name} (ID: ${result.item.id}) instead of creating a duplicate:\n• Quantity: ${result.previousQuantity} → ${result.newQuantity}\n• Matched on: ${best.reasons.join(", ")}${warning}`;
+              return {
+                content: [{ type: "text", text }],
+                payload: {
+                  items: [itemPayload(locationTree, result.item)],
+                  data: {
+                    created: false,
+                    previousQuantity: result.previousQuantity,
+                    newQuantity: result.newQuantity,
+                  },
+                },
+              };
+            }
+
+            if (candidates.length > 0) {
+              const text = `⚠ Not added: ${candidates.length} likely duplicates already exist:\n${candidates
+                .slice(0, 5)
+                .map(
+                  (candidate) =>
+                    `• ${candidate.item.name} (ID: ${candidate.item.id}) (qty: ${candidate.item.quantity}) @ ${itemLocationPath(locationTree, candidate.item)}: ${candidate.reasons.join(", ")}`
+                )
+                .join("\n")}\nUse homebox_adjust_quantity on an existing item, call again with onDuplicate: "increment", or with allowDuplicate: true to create a separate item`;
+              return {
+                content: [{ type: "text", text }],
+                payload: {
+                  items: candidates.map((candidate) => itemPayload(locationTree, candidate.item)),
+                  data: { created: false, duplicates: candidates.length },
+                },
+              };
+            }
+          }
+
+          const labels = params.labels?.length
+            ? await client.resolveLabels(params.labels, {
+                createMissing: params.createMissingLabels,
+              })
+            : undefined;
+          if (labels) item.tagIds = [...new Set([...(item.tagIds ?? []), ...labels.ids])];
+
+          const location =
+            params.locationId && !locationId
+              ? await client.resolveLocation(params.locationId, { createMissing: true })
+              : undefined;
+          if (location) {
+            item.locationId = location.id;
+            locationTree = await client.getLocationHierarchy();
+          }
+
+          const created = await client.createItem(item);
+          builtSearchIndex(params.instance)?.upsert(created);
+          const warning = await record(params.instance, "homebox_add_item", callId, [
+            ...createdLocationChanges(locationTree, location?.created ?? []),
+            ...createdLabelChanges(labels?.created ?? []),
+            {
+              operation: "item.create",
+              target: { type: "item", id: created.id!, name: created.name },
+              after: created,
+            },
+          ]);
+
+          const text = `✓ Added to HomeBox:\n• Name: ${created.name}\n• Quantity: ${created.quantity}\n• Location: ${itemLocationPath(locationTree, created)}${created.labels?.length ? `\n• Labels: ${created.labels.map((label) => label.name).join(", ")}` : ""}${createdLocationsNote(locationTree, location?.created ?? [])}${labels?.created.length ? `\n• Created labels: ${labels.created.map((label) => label.name).join(", ")}` : ""}${warning}`;
+
+          return {
+            content: [{ type: "text", text }],
+            payload: {
+              items: [itemPayload(locationTree, created)],
+              labels: labels?.created.map(labelPayload),
+              data: { created: true },
+            },
+          };
+        } catch (error) {
+          return toolError("add item", error);
+        }
       },
     });
 
     // Tool 4: Attach file or image to item
-    api.registerTool({
+    registerTool({
       name: "homebox_attach_file",
       description: "Attach a file or image to a HomeBox item (supports jpg, png, pdf, etc.)",
       parameters: {
@@ -264,15 +954,16 @@ const plugin = {
             type: "boolean",
             description: "Mark this as the primary/thumbnail image for the item",
           },
+          instance: instanceProperty,
         },
         required: ["itemId", "filePath"],
       },
-      async execute(_id, params: any) {
+      async execute(callId, params: any) {
         const fs = require("fs");
         const path = require("path");
 
         try {
-          const client = getClient();
+          const client = getClient(params.instance);
           const filePath = params.filePath;
           const fileName = params.fileName || path.basename(filePath);
 
@@ -301,28 +992,34 @@ const plugin = {
           });
 
           const attachment = result.attachments?.[result.attachments.length - 1];
-          const text = `✓ Attached to ${result.name}:\n• File: ${fileName}\n• Type: ${attachment?.type || "file"}${params.primary ? "\n• Set as primary image" : ""}`;
+          const warning = attachment
+            ? await record(params.instance, "homebox_attach_file", callId, [
+                {
+                  operation: "attachment.add",
+                  target: { type: "attachment", id: attachment.id, name: fileName, itemId: params.itemId },
+                  after: attachment,
+                },
+              ])
+            : "";
+          const text = `✓ Attached to ${result.name}:\n• File: ${fileName}\n• Type: ${attachment?.type || "file"}${params.primary ? "\n• Set as primary image" : ""}${warning}`;
 
           return {
             content: [{ type: "text", text }],
+            payload: {
+              data: { itemId: params.itemId, attachmentId: attachment?.id, fileName },
+            },
           };
-        } catch (error: any) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `✗ Failed to attach file: ${error.message}`,
-              },
-            ],
-          };
+        } catch (error) {
+          return toolError("attach file", error);
         }
       },
     });
 
     // Tool 5: Delete an item
-    api.registerTool({
+    registerTool({
       name: "homebox_delete_item",
-      description: "Permanently delete an item from HomeBox (cannot be undone)",
+      description:
+        "Delete an item from HomeBox. Call without confirmationToken first to preview the item and its attachments and get a token, then call again with the token to delete. homebox_undo can re-create it from its journal snapshot, but not its attachments",
       parameters: {
         type: "object",
         properties: {
@@ -330,36 +1027,69 @@ const plugin = {
             type: "string",
             description: "The ID of the item to delete",
           },
+          confirmationToken: confirmationTokenProperty,
+          instance: instanceProperty,
         },
         required: ["itemId"],
       },
-      async execute(_id, params: { itemId: string }) {
+      async execute(
+        callId,
+        params: { itemId: string; confirmationToken?: string; instance?: string }
+      ) {
         try {
-          const client = getClient();
-          await client.deleteItem(params.itemId);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `✓ Item deleted successfully`,
-              },
-            ],
-          };
-        } catch (error: any) {
+          const client = getClient(params.instance);
+          // Snapshot first so homebox_undo can re-create it
+          const before = await client.getItem(params.itemId);
+
+          if (!params.confirmationToken) {
+            const locationTree = await client.getLocationHierarchy();
+            const attachments = before.attachments ?? [];
+            const attachmentLines = attachments.map(
+              (attachment) =>
+                `\n  - ${attachment.document?.title || attachment.id}${attachment.type ? ` (${attachment.type})` : ""}`
+            );
+            const token = confirmations.issue("homebox_delete_item", params.itemId);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `⚠ This will delete:\n${formatItemLine(locationTree, before)}\nAttachments: ${attachments.length > 0 ? `${attachments.length} (deleted with the item, cannot be restored)${attachmentLines.join("")}` : "none"}${confirmationPrompt("homebox_delete_item", token, confirmations.ttlMinutes)}`,
+                },
+              ],
+              payload: {
+                items: [itemPayload(locationTree, before)],
+                data: { deleted: false, confirmationToken: token, attachments: attachments.length },
+              },
+            };
+          }
+          confirmations.consume(params.confirmationToken, "homebox_delete_item", params.itemId);
+
+          await client.deleteItem(params.itemId);
+          builtSearchIndex(params.instance)?.remove(params.itemId);
+          const warning = await record(params.instance, "homebox_delete_item", callId, [
+            {
+              operation: "item.delete",
+              target: { type: "item", id: params.itemId, name: before.name },
+              before,
+            },
+          ]);
           return {
             content: [
               {
                 type: "text",
-                text: `✗ Failed to delete item: ${error.message}`,
+                text: `✓ Item deleted successfully${warning}`,
               },
             ],
+            payload: { data: { deleted: true, itemId: params.itemId } },
           };
+        } catch (error) {
+          return toolError("delete item", error);
         }
       },
     });
 
     // Tool 6: Remove an attachment from an item
-    api.registerTool({
+    registerTool({
       name: "homebox_remove_attachment",
       description: "Remove a file or image attachment from an item",
       parameters: {
@@ -373,36 +1103,45 @@ const plugin = {
             type: "string",
             description: "The ID of the attachment to remove",
           },
+          instance: instanceProperty,
         },
         required: ["itemId", "attachmentId"],
       },
-      async execute(_id, params: { itemId: string; attachmentId: string }) {
+      async execute(callId, params: { itemId: string; attachmentId: string; instance?: string }) {
         try {
-          const client = getClient();
+          const client = getClient(params.instance);
+          const item = await client.getItem(params.itemId);
+          const attachment = item.attachments?.find((candidate) => candidate.id === params.attachmentId);
           await client.deleteAttachment(params.itemId, params.attachmentId);
-          return {
-            content: [
-              {
-                type: "text",
-                text: `✓ Attachment removed`,
+          const warning = await record(params.instance, "homebox_remove_attachment", callId, [
+            {
+              operation: "attachment.delete",
+              target: {
+                type: "attachment",
+                id: params.attachmentId,
+                name: attachment?.document?.title,
+                itemId: params.itemId,
               },
-            ],
-          };
-        } catch (error: any) {
+              before: attachment,
+            },
+          ]);
           return {
             content: [
               {
                 type: "text",
-                text: `✗ Failed to remove attachment: ${error.message}`,
+                text: `✓ Attachment removed${warning}`,
               },
             ],
+            payload: { data: { itemId: params.itemId, attachmentId: params.attachmentId } },
           };
+        } catch (error) {
+          return toolError("remove attachment", error);
         }
       },
     });
 
     // Tool 7: Create a new location
-    api.registerTool({
+    registerTool({
       name: "homebox_create_location",
       description: "Create a new location/container in HomeBox (e.g., drawer, shelf, cabinet)",
       parameters: {
@@ -418,38 +1157,57 @@ const plugin = {
           },
           parentId: {
             type: "string",
-            description: "Optional ID of parent location (for nested locations)",
+            description:
+              "Optional parent location (for nested locations): an ID, name, or path like 'Garage/Shelf 3'",
           },
+          createMissingLocation: {
+            ...createMissingLocationProperty,
+            description: "Create any missing segments of the parent path first",
+          },
+          instance: instanceProperty,
         },
         required: ["name"],
       },
-      async execute(_id, params: any) {
+      async execute(callId, params: any) {
         try {
-          const client = getClient();
+          const client = getClient(params.instance);
+          const parent = params.parentId
+            ? await client.resolveLocation(params.parentId, {
+                createMissing: params.createMissingLocation,
+              })
+            : undefined;
           const location = await client.createLocation({
             name: params.name,
             description: params.description,
-            parentId: params.parentId,
+            parentId: parent?.id,
           });
-          const text = `✓ Created location:\n• Name: ${location.name}\n• ID: ${location.id}${location.description ? `\n• Description: ${location.description}` : ""}`;
+          const locationTree = await client.getLocationHierarchy();
+          const warning = await record(params.instance, "homebox_create_location", callId, [
+            ...createdLocationChanges(locationTree, parent?.created ?? []),
+            {
+              operation: "location.create",
+              target: { type: "location", id: location.id, name: locationTree.path(location.id) },
+              after: location,
+            },
+          ]);
+          const text = `✓ Created location:\n• Name: ${location.name}\n• Path: ${locationTree.path(location.id) || location.name}\n• ID: ${location.id}${location.description ? `\n• Description: ${location.description}` : ""}${createdLocationsNote(locationTree, parent?.created ?? [])}${warning}`;
           return {
             content: [{ type: "text", text }],
+            payload: {
+              locations: [
+                ...(parent?.created ?? []).map((id) => locationPayload(locationTree, id)),
+                locationPayload(locationTree, location.id),
+              ],
+            },
           };
-        } catch (error: any) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `✗ Failed to create location: ${error.message}`,
-              },
-            ],
-          };
+        } catch (error) {
+          return toolError("create location", error);
         }
       },
     });
 
     // Tool 8: Update an existing location
-    api.registerTool({
+    registerTool({
       name: "homebox_update_location",
       description: "Update a location's name, description, or parent",
       parameters: {
@@ -457,7 +1215,7 @@ const plugin = {
         properties: {
           locationId: {
             type: "string",
-            description: "The ID of the location to update",
+            description: "The location to update: an ID, name, or path (e.g., 'Garage/Shelf 3')",
           },
           name: {
             type: "string",
@@ -469,74 +1227,2540 @@ const plugin = {
           },
           parentId: {
             type: "string",
-            description: "New parent location ID (for moving to nested structure)",
+            description: "New parent location (for moving to nested structure): an ID, name, or path",
           },
+          instance: instanceProperty,
         },
         required: ["locationId"],
       },
-      async execute(_id, params: any) {
+      async execute(callId, params: any) {
         try {
-          const client = getClient();
-          const location = await client.updateLocation(params.locationId, {
+          const client = getClient(params.instance);
+          const { id: locationId } = await client.resolveLocation(params.locationId);
+          const parentId = params.parentId
+            ? (await client.resolveLocation(params.parentId)).id
+            : undefined;
+
+          if (parentId) {
+            const locationTree = await client.getLocationHierarchy({ maxAgeMs: 0 });
+            if (locationTree.wouldCreateCycle(locationId, parentId)) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `✗ Cannot move ${locationTree.path(locationId) || locationId} under ${locationTree.path(parentId) || parentId}: a location cannot be placed inside itself or one of its own sublocations`,
+                  },
+                ],
+              };
+            }
+          }
+
+          const before = await client.getLocation(locationId);
+          const location = await client.updateLocation(locationId, {
             name: params.name,
             description: params.description,
-            parentId: params.parentId,
+            parentId,
           });
-          const text = `✓ Updated location:\n• Name: ${location.name}${location.description ? `\n• Description: ${location.description}` : ""}`;
+          const locationTree = await client.getLocationHierarchy();
+          const warning = await record(params.instance, "homebox_update_location", callId, [
+            {
+              operation: "location.update",
+              target: { type: "location", id: locationId, name: locationTree.path(locationId) },
+              before,
+              after: location,
+            },
+          ]);
+          const text = `✓ Updated location:\n• Name: ${location.name}\n• Path: ${locationTree.path(location.id) || location.name}${location.description ? `\n• Description: ${location.description}` : ""}${warning}`;
           return {
             content: [{ type: "text", text }],
+            payload: { locations: [locationPayload(locationTree, location.id)] },
           };
-        } catch (error: any) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `✗ Failed to update location: ${error.message}`,
-              },
-            ],
-          };
+        } catch (error) {
+          return toolError("update location", error);
         }
       },
     });
 
     // Tool 9: Delete a location
-    api.registerTool({
+    registerTool({
       name: "homebox_delete_location",
-      description: "Permanently delete a location (cannot be undone, items are not deleted)",
+      description:
+        "Delete a location. A location that still holds items or sublocations is only deleted with reassignTo (its items and sublocations are moved there first) or cascade (they are deleted too). Call without confirmationToken first to preview exactly what will happen and get a token, then call again with the token",
       parameters: {
         type: "object",
         properties: {
           locationId: {
             type: "string",
-            description: "The ID of the location to delete",
+            description: "The location to delete: an ID, name, or path (e.g., 'Garage/Shelf 3')",
+          },
+          reassignTo: {
+            type: "string",
+            description:
+              "Move the location's items and sublocations here before deleting it: an ID, name, or path",
+          },
+          cascade: {
+            type: "boolean",
+            description:
+              "Delete every item and sublocation inside as well. homebox_undo can re-create them, but not their attachments",
           },
+          confirmationToken: confirmationTokenProperty,
+          instance: instanceProperty,
         },
         required: ["locationId"],
       },
-      async execute(_id, params: { locationId: string }) {
+      async execute(
+        callId,
+        params: {
+          locationId: string;
+          reassignTo?: string;
+          cascade?: boolean;
+          confirmationToken?: string;
+          instance?: string;
+        }
+      ) {
         try {
-          const client = getClient();
-          await client.deleteLocation(params.locationId);
+          if (params.reassignTo && params.cascade) {
+            throw new Error("Pass either reassignTo or cascade, not both");
+          }
+          const client = getClient(params.instance);
+          const { id: locationId } = await client.resolveLocation(params.locationId);
+          const locationTree = await client.getLocationHierarchy({ maxAgeMs: 0 });
+          const path = locationTree.path(locationId) || locationId;
+          const byPath = (a: string, b: string) =>
+            locationTree.path(a)!.localeCompare(locationTree.path(b)!);
+
+          const reassignTo = params.reassignTo
+            ? (await client.resolveLocation(params.reassignTo)).id
+            : undefined;
+          if (reassignTo && locationTree.wouldCreateCycle(locationId, reassignTo)) {
+            throw new Error(
+              `Cannot reassign to ${locationTree.path(reassignTo) || reassignTo}: it is ${path} or one of its sublocations`
+            );
+          }
+          const reassignPath = reassignTo ? locationTree.path(reassignTo) || reassignTo : undefined;
+
+          // Full records, archived included, so the journal can restore them
+          const items = (
+            await client.findItems({
+              locationIds: [locationId],
+              includeSubLocations: params.cascade,
+              archived: "include",
+            })
+          ).items;
+          const childIds = locationTree.childIds(locationId).sort(byPath);
+          const sublocations = locationTree.descendantIds(locationId).sort(byPath);
+          const mode = reassignTo ? `reassign:${reassignTo}` : params.cascade ? "cascade" : "empty";
+
+          const contents = [
+            `Items${params.cascade ? "" : " directly in it"}: ${items.length > 0 ? items.length : "none"}`,
+            ...items.map((item) => `  ${formatItemLine(locationTree, item)}`),
+            `Sublocations: ${sublocations.length > 0 ? sublocations.length : "none"}`,
+            ...sublocations.map(
+              (id) => `  • ${locationTree.path(id)} (${locationTree.totalItemCount(id)} items)`
+            ),
+          ];
+          const contentsPayload = {
+            items: items.map((item) => itemPayload(locationTree, item)),
+            locations: [locationId, ...sublocations].map((id) => locationPayload(locationTree, id)),
+          };
+
+          if (mode === "empty" && (items.length > 0 || childIds.length > 0)) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `✗ ${path} is not empty, so it was not deleted. Pass reassignTo to move its contents to another location first, or cascade: true to delete them too.\n${contents.join("\n")}`,
+                },
+              ],
+              payload: { ...contentsPayload, data: { deleted: false } },
+            };
+          }
+
+          if (!params.confirmationToken) {
+            let heading = `⚠ This will delete location: ${path} (ID: ${locationId})`;
+            if (reassignTo) {
+              heading = `⚠ This will move ${items.length} items and ${childIds.length} sublocations (with everything nested in them) from ${path} to ${reassignPath}, then delete ${path} (ID: ${locationId})`;
+            } else if (params.cascade) {
+              heading += `, along with ${items.length} items and ${sublocations.length} sublocations`;
+            }
+            const token = confirmations.issue("homebox_delete_location", `${locationId}:${mode}`);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `${heading}\n${contents.join("\n")}${confirmationPrompt("homebox_delete_location", token, confirmations.ttlMinutes)}`,
+                },
+              ],
+              payload: { ...contentsPayload, data: { deleted: false, confirmationToken: token } },
+            };
+          }
+          confirmations.consume(
+            params.confirmationToken,
+            "homebox_delete_location",
+            `${locationId}:${mode}`
+          );
+
+          const changes: JournalChange[] = [];
+          const failures: { name: string; error: string }[] = [];
+          const lines: string[] = [];
+          const reassigned: HomeBoxItem[] = [];
+
+          if (reassignTo) {
+            await mapWithConcurrency(items, 4, async (item) => {
+              try {
+                const updated = await client.updateItem(item.id!, { locationId: reassignTo });
+                builtSearchIndex(params.instance)?.upsert(updated);
+                reassigned.push(updated);
+                changes.push({
+                  operation: "item.update",
+                  target: { type: "item", id: item.id!, name: item.name },
+                  before: item,
+                  after: updated,
+                });
+                lines.push(`• Item ${item.name} (ID: ${item.id}) → ${reassignPath}`);
+              } catch (error) {
+                failures.push({ name: item.name, error: describeError(error) });
+              }
+            });
+            for (const childId of childIds) {
+              const childPath = locationTree.path(childId) || childId;
+              try {
+                const before = await client.getLocation(childId);
+                const after = await client.updateLocation(childId, { parentId: reassignTo });
+                changes.push({
+                  operation: "location.update",
+                  target: { type: "location", id: childId, name: childPath },
+                  before,
+                  after,
+                });
+                lines.push(`• Location ${childPath} → ${reassignPath} › ${before.name}`);
+              } catch (error) {
+                failures.push({ name: childPath, error: describeError(error) });
+              }
+            }
+          } else if (params.cascade) {
+            await mapWithConcurrency(items, 4, async (item) => {
+              try {
+                await client.deleteItem(item.id!);
+                builtSearchIndex(params.instance)?.remove(item.id!);
+                changes.push({
+                  operation: "item.delete",
+                  target: { type: "item", id: item.id!, name: item.name },
+                  before: item,
+                });
+                lines.push(`• Deleted item ${item.name} (ID: ${item.id})`);
+              } catch (error) {
+                failures.push({ name: item.name, error: describeError(error) });
+              }
+            });
+            // Deepest first, so each location is empty by the time it goes
+            const deepestFirst = [...sublocations].sort(
+              (a, b) => locationTree.pathSegments(b).length - locationTree.pathSegments(a).length
+            );
+            for (const id of failures.length === 0 ? deepestFirst : []) {
+              const sublocationPath = locationTree.path(id) || id;
+              try {
+                const before = await client.getLocation(id);
+                await client.deleteLocation(id);
+                changes.push({
+                  operation: "location.delete",
+                  target: { type: "location", id, name: sublocationPath },
+                  before,
+                });
+                lines.push(`• Deleted location ${sublocationPath}`);
+              } catch (error) {
+                failures.push({ name: sublocationPath, error: describeError(error) });
+                break;
+              }
+            }
+          }
+
+          let text: string;
+          if (failures.length > 0) {
+            text = `✗ ${path} was not deleted because ${failures.length} of its contents could not be ${reassignTo ? "moved" : "deleted"}:\n${failures.map((f) => `• ${f.name}: ${f.error}`).join("\n")}`;
+            if (lines.length > 0) text += `\nAlready done:\n${lines.join("\n")}`;
+          } else {
+            // Snapshot once emptied, so undo doesn't think items are missing
+            const before = await client.getLocation(locationId);
+            await client.deleteLocation(locationId);
+            changes.push({
+              operation: "location.delete",
+              target: { type: "location", id: locationId, name: path },
+              before,
+            });
+            text = `✓ Deleted location ${path}`;
+            if (reassignTo) {
+              text += ` after moving ${items.length} items and ${childIds.length} sublocations to ${reassignPath}`;
+            } else if (params.cascade) {
+              text += ` with ${items.length} items and ${sublocations.length} sublocations`;
+            }
+            if (lines.length > 0) text += `:\n${lines.join("\n")}`;
+          }
+          text += await record(params.instance, "homebox_delete_location", callId, changes);
           return {
-            content: [
-              {
-                type: "text",
-                text: `✓ Location deleted successfully`,
+            content: [{ type: "text", text }],
+            payload: {
+              // Moved items where they are now; deleted items and locations as they were
+              items: reassignTo
+                ? reassigned.map((item) => itemPayload(locationTree, item))
+                : contentsPayload.items,
+              locations: reassignTo
+                ? [locationPayload(locationTree, locationId)]
+                : contentsPayload.locations,
+              data: {
+                deleted: failures.length === 0,
+                mode: reassignTo ? "reassign" : params.cascade ? "cascade" : "empty",
+                reassignTo,
+                failures,
               },
-            ],
+            },
           };
-        } catch (error: any) {
+        } catch (error) {
+          return toolError("delete location", error);
+        }
+      },
+    });
+    // Tool 10: Update an existing item
+    registerTool({
+      name: "homebox_update_item",
+      description:
+        "Update fields on an existing item. Only the fields you pass are changed; everything else (attachments, history) is kept",
+      parameters: {
+        type: "object",
+        properties: {
+          itemId: {
+            type: "string",
+            description: "The ID of the item to update",
+          },
+          ...itemFieldProperties,
+          createMissingLocation: createMissingLocationProperty,
+          createMissingLabels: createMissingLabelsProperty,
+          instance: instanceProperty,
+        },
+        required: ["itemId"],
+      },
+      async execute(callId, params: any) {
+        try {
+          const client = getClient(params.instance);
+          const patch: HomeBoxItemPatch = {};
+          for (const field of UPDATABLE_ITEM_FIELDS) {
+            if (params[field] !== undefined) setItemField(patch, field, params[field]);
+          }
+
+          const labels = params.labels?.length
+            ? await client.resolveLabels(params.labels, {
+                createMissing: params.createMissingLabels,
+              })
+            : undefined;
+          if (labels) patch.tagIds = [...new Set([...(patch.tagIds ?? []), ...labels.ids])];
+
+          if (Object.keys(patch).length === 0) {
+            return {
+              content: [{ type: "text", text: "✗ No fields to update were provided" }],
+            };
+          }
+
+          const location = patch.locationId
+            ? await client.resolveLocation(patch.locationId, {
+                createMissing: params.createMissingLocation,
+              })
+            : undefined;
+          if (location) patch.locationId = location.id;
+
+          const { before, item: after } = await client.modifyItem(params.itemId, () => patch);
+          builtSearchIndex(params.instance)?.upsert(after);
+          const changes = diffItems(before, after);
+          const locationTree = await client.getLocationHierarchy();
+          const warning = await record(params.instance, "homebox_update_item", callId, [
+            ...createdLocationChanges(locationTree, location?.created ?? []),
+            ...createdLabelChanges(labels?.created ?? []),
+            {
+              operation: "item.update",
+              target: { type: "item", id: params.itemId, name: after.name },
+              before,
+              after,
+            },
+          ]);
+          const formatChange = (field: string, value: unknown) =>
+            field === "locationId" && typeof value === "string"
+              ? locationTree.path(value) || value
+              : formatFieldValue(value);
+
+          const text =
+            changes.length === 0
+              ? `✓ ${after.name} is unchanged (values already matched)`
+              : `✓ Updated ${after.name}:\n${changes
+                  .map(
+                    (change) =>
+                      `• ${change.field}: ${formatChange(change.field, change.before)} → ${formatChange(change.field, change.after)}`
+                  )
+                  .join("\n")}${createdLocationsNote(locationTree, location?.created ?? [])}`;
+
           return {
-            content: [
-              {
-                type: "text",
-                text: `✗ Failed to delete location: ${error.message}`,
+            content: [{ type: "text", text: text + warning }],
+            payload: {
+              items: [itemPayload(locationTree, after)],
+              data: { changedFields: changes.map((change) => change.field) },
+            },
+          };
+        } catch (error) {
+          return toolError("update item", error);
+        }
+      },
+    });
+    // Tool 11: Adjust an item's quantity (consume or restock)
+    registerTool({
+      name: "homebox_adjust_quantity",
+      description:
+        "Consume or restock an item by a relative amount (e.g., -12 after using 12, +50 after restocking). Safe when several agents adjust the same item",
+      parameters: {
+        type: "object",
+        properties: {
+          itemId: {
+            type: "string",
+            description: "The ID of the item to adjust",
+          },
+          delta: {
+            type: "number",
+            description: "Amount to add (positive) or remove (negative)",
+          },
+          reason: {
+            type: "string",
+            description: "Optional reason, recorded in the item's notes (e.g., 'used for amp build')",
+          },
+          force: {
+            type: "boolean",
+            description: "Allow the quantity to go below zero",
+          },
+          instance: instanceProperty,
+        },
+        required: ["itemId", "delta"],
+      },
+      async execute(
+        callId,
+        params: {
+          itemId: string;
+          delta: number;
+          reason?: string;
+          force?: boolean;
+          instance?: string;
+        }
+      ) {
+        try {
+          if (!Number.isInteger(params.delta) || params.delta === 0) {
+            return {
+              content: [{ type: "text", text: "✗ delta must be a non-zero whole number" }],
+            };
+          }
+
+          const client = getClient(params.instance);
+          const result = await client.adjustQuantity(params.itemId, params.delta, {
+            reason: params.reason,
+            allowNegative: params.force,
+          });
+          builtSearchIndex(params.instance)?.upsert(result.item);
+          const warning = await record(params.instance, "homebox_adjust_quantity", callId, [
+            {
+              operation: "item.adjust",
+              target: { type: "item", id: params.itemId, name: result.item.name },
+              before: { quantity: result.previousQuantity },
+              after: { quantity: result.newQuantity },
+            },
+          ]);
+
+          const text = `✓ ${params.delta < 0 ? "Consumed" : "Restocked"} ${result.item.name}:\n• Quantity: ${result.previousQuantity} → ${result.newQuantity}${params.reason ? `\n• Reason: ${params.reason}` : ""}${warning}`;
+          const locationTree = await client.getLocationHierarchy();
+
+          return {
+            content: [{ type: "text", text }],
+            payload: {
+              items: [itemPayload(locationTree, result.item)],
+              data: { previousQuantity: result.previousQuantity, newQuantity: result.newQuantity },
+            },
+          };
+        } catch (error) {
+          return toolError("adjust quantity", error);
+        }
+      },
+    });
+    // Tool 12: Move items between locations in bulk
+    registerTool({
+      name: "homebox_move_items",
+      description:
+        "Move several items to another location at once (e.g., when reorganizing). Give either a list of item IDs or a source location (optionally filtered by keyword). Use dryRun to preview",
+      parameters: {
+        type: "object",
+        properties: {
+          itemIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "IDs of the items to move",
+          },
+          sourceLocationId: {
+            type: "string",
+            description:
+              "Move items from this location (used when itemIds is not given): an ID, name, or path",
+          },
+          query: {
+            type: "string",
+            description: "Only move items from the source location matching this keyword",
+          },
+          destinationLocationId: {
+            type: "string",
+            description: "Where to move the items: a location ID, name, or path (e.g., 'Garage/Shelf 3')",
+          },
+          createMissingLocation: {
+            ...createMissingLocationProperty,
+            description: "Create any missing segments of the destination path (ignored for dry runs)",
+          },
+          dryRun: {
+            type: "boolean",
+            description: "List what would be moved without changing anything",
+          },
+          concurrency: {
+            type: "number",
+            description: "How many items to move at once (default: 4, max: 10)",
+          },
+          instance: instanceProperty,
+        },
+        required: ["destinationLocationId"],
+      },
+      async execute(callId, params: any) {
+        try {
+          const client = getClient(params.instance);
+          const itemIds: string[] = params.itemIds ?? [];
+
+          if (itemIds.length === 0 && !params.sourceLocationId) {
+            return {
+              content: [
+                { type: "text", text: "✗ Provide either itemIds or sourceLocationId" },
+              ],
+            };
+          }
+
+          const destination = await client.resolveLocation(params.destinationLocationId, {
+            createMissing: params.createMissingLocation && !params.dryRun,
+          });
+          const destinationId = destination.id;
+          const locationTree = await client.getLocationHierarchy();
+          const destinationPath = locationTree.path(destinationId) || destinationId;
+          const sourceLocationId = params.sourceLocationId
+            ? (await client.resolveLocation(params.sourceLocationId)).id
+            : undefined;
+
+          const concurrency = Math.min(Math.max(params.concurrency ?? 4, 1), 10);
+          const failures: { id: string; name?: string; error: string }[] = [];
+
+          // Resolve the set of items to move
+          let candidates: HomeBoxItem[];
+          if (itemIds.length > 0) {
+            const fetched = await mapWithConcurrency(itemIds, concurrency, async (id) => {
+              try {
+                return await client.getItem(id);
+              } catch (error) {
+                failures.push({ id, error: describeError(error) });
+                return null;
+              }
+            });
+            candidates = fetched.filter((item): item is HomeBoxItem => item !== null);
+          } else {
+            candidates = await client.getLocationItems(sourceLocationId!, params.query);
+          }
+
+          const alreadyThere = candidates.filter((item) => item.location?.id === destinationId);
+          const toMove = candidates.filter((item) => item.location?.id !== destinationId);
+
+          if (params.dryRun) {
+            const lines = toMove.map(
+              (item) => `• ${item.name} (ID: ${item.id}) @ ${itemLocationPath(locationTree, item)}`
+            );
+            let text =
+              toMove.length === 0
+                ? `Nothing to move to ${destinationPath}.`
+                : `Would move ${toMove.length} items to ${destinationPath}:\n${lines.join("\n")}`;
+            if (alreadyThere.length > 0) text += `\n${alreadyThere.length} items already in ${destinationPath}`;
+            if (failures.length > 0) {
+              text += `\nCould not load ${failures.length} items:\n${failures.map((f) => `• ${f.id}: ${f.error}`).join("\n")}`;
+            }
+            return {
+              content: [{ type: "text", text }],
+              payload: {
+                items: toMove.map((item) => itemPayload(locationTree, item)),
+                data: {
+                  dryRun: true,
+                  destinationId,
+                  destinationPath,
+                  alreadyThere: alreadyThere.length,
+                  failures,
+                },
               },
-            ],
+            };
+          }
+
+          const moved: HomeBoxItem[] = [];
+          const movedTo: HomeBoxItem[] = [];
+          const changes = createdLocationChanges(locationTree, destination.created);
+          await mapWithConcurrency(toMove, concurrency, async (item) => {
+            try {
+              const updated = await client.updateItem(item.id!, { locationId: destinationId });
+              builtSearchIndex(params.instance)?.upsert(updated);
+              moved.push(item);
+              movedTo.push(updated);
+              changes.push({
+                operation: "item.update",
+                target: { type: "item", id: item.id!, name: item.name },
+                before: item,
+                after: updated,
+              });
+            } catch (error) {
+              failures.push({ id: item.id!, name: item.name, error: describeError(error) });
+            }
+          });
+
+          let text = `✓ Moved ${moved.length} of ${toMove.length} items to ${destinationPath}${createdLocationsNote(locationTree, destination.created)}`;
+          if (moved.length > 0) {
+            text += `:\n${moved.map((item) => `• ${item.name} (ID: ${item.id}) from ${itemLocationPath(locationTree, item)}`).join("\n")}`;
+          }
+          if (alreadyThere.length > 0) text += `\n${alreadyThere.length} items were already in ${destinationPath}`;
+          if (failures.length > 0) {
+            text += `\n✗ ${failures.length} failed:\n${failures.map((f) => `• ${f.name ?? f.id}: ${f.error}`).join("\n")}`;
+          }
+          text += await record(params.instance, "homebox_move_items", callId, changes);
+
+          return {
+            content: [{ type: "text", text }],
+            payload: {
+              items: movedTo.map((item) => itemPayload(locationTree, item)),
+              data: {
+                dryRun: false,
+                destinationId,
+                destinationPath,
+                moved: moved.length,
+                alreadyThere: alreadyThere.length,
+                failures,
+              },
+            },
+          };
+        } catch (error) {
+          return toolError("move items", error);
+        }
+      },
+    });
+    // Tool 13: Merge two items into one
+    registerTool({
+      name: "homebox_merge_items",
+      description:
+        "Merge a duplicate item into another: quantities are added, notes and tags combined, empty fields filled in and attachments copied, then the duplicate is deleted. Call without confirmationToken first to preview the merge and get a token, then call again with the token",
+      parameters: {
+        type: "object",
+        properties: {
+          keepItemId: {
+            type: "string",
+            description: "The ID of the item to keep",
+          },
+          mergeItemId: {
+            type: "string",
+            description: "The ID of the duplicate to merge in and then delete",
+          },
+          confirmationToken: confirmationTokenProperty,
+          instance: instanceProperty,
+        },
+        required: ["keepItemId", "mergeItemId"],
+      },
+      async execute(
+        callId,
+        params: {
+          keepItemId: string;
+          mergeItemId: string;
+          confirmationToken?: string;
+          instance?: string;
+        }
+      ) {
+        try {
+          if (params.keepItemId === params.mergeItemId) {
+            return {
+              content: [{ type: "text", text: "✗ Cannot merge an item into itself" }],
+            };
+          }
+
+          const client = getClient(params.instance);
+          const [keep, merge] = await Promise.all([
+            client.getItem(params.keepItemId),
+            client.getItem(params.mergeItemId),
+          ]);
+
+          // Quantity is added separately under the item lock, so it isn't part of the patch
+          const patch: HomeBoxItemPatch = {};
+
+          if (merge.notes && merge.notes !== keep.notes) {
+            const merged = `Merged from ${merge.name} (${merge.id}):\n${merge.notes}`;
+            patch.notes = keep.notes ? `${keep.notes}\n\n${merged}` : merged;
+          }
+
+          // Fill in details the kept item is missing
+          const fillable = [
+            "description",
+            "serialNumber",
+            "modelNumber",
+            "manufacturer",
+            "warrantyDetails",
+            "purchaseFrom",
+          ] as const;
+          for (const field of fillable) {
+            if (!keep[field] && merge[field]) patch[field] = merge[field];
+          }
+
+          const keepTags = (getItemField(keep, "tagIds") as string[] | undefined) ?? [];
+          const mergeTags = (getItemField(merge, "tagIds") as string[] | undefined) ?? [];
+          if (mergeTags.some((tag) => !keepTags.includes(tag))) {
+            patch.tagIds = [...new Set([...keepTags, ...mergeTags])];
+          }
+
+          const target = `${keep.id}:${merge.id}`;
+          if (!params.confirmationToken) {
+            const locationTree = await client.getLocationHierarchy();
+            const attachmentCount = merge.attachments?.length ?? 0;
+            const plan = [
+              `  - quantity: ${keep.quantity ?? 0} + ${merge.quantity ?? 0}`,
+              ...Object.keys(patch)
+                .filter((field) => field !== "notes" && field !== "tagIds")
+                .map((field) => `  - ${field}: filled in from the duplicate`),
+              ...(patch.notes ? ["  - notes combined"] : []),
+              ...(patch.tagIds ? ["  - labels combined"] : []),
+              ...(attachmentCount > 0 ? [`  - ${attachmentCount} attachments copied`] : []),
+            ];
+            const token = confirmations.issue("homebox_merge_items", target);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `⚠ This will merge:\n${formatItemLine(locationTree, merge)} (deleted afterwards)\ninto:\n${formatItemLine(locationTree, keep)}\n${plan.join("\n")}${confirmationPrompt("homebox_merge_items", token, confirmations.ttlMinutes)}`,
+                },
+              ],
+              payload: {
+                items: [itemPayload(locationTree, keep), itemPayload(locationTree, merge)],
+                data: { merged: false, confirmationToken: token },
+              },
+            };
+          }
+          confirmations.consume(params.confirmationToken, "homebox_merge_items", target);
+
+          // Copy attachments before touching anything else, so a failure leaves both items intact
+          const copied: string[] = [];
+          const failed: string[] = [];
+          const changes: JournalChange[] = [];
+          for (const attachment of merge.attachments ?? []) {
+            const title = attachment.document?.title || attachment.id;
+            try {
+              const file = await client.downloadAttachment(merge.id!, attachment.id);
+              const withCopy = await client.attachFile(keep.id!, file.buffer, title, {
+                type: attachment.type,
+              });
+              copied.push(title);
+              const copy = withCopy.attachments?.[withCopy.attachments.length - 1];
+              if (copy) {
+                changes.push({
+                  operation: "attachment.add",
+                  target: { type: "attachment", id: copy.id, name: title, itemId: keep.id },
+                  after: copy,
+                });
+              }
+            } catch (error) {
+              failed.push(`${title}: ${describeError(error)}`);
+            }
+          }
+
+          if (failed.length > 0) {
+            const warning = await record(params.instance, "homebox_merge_items", callId, changes);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `✗ Merge stopped: could not copy ${failed.length} attachments, nothing was deleted:\n${failed.map((line) => `• ${line}`).join("\n")}${copied.length > 0 ? `\nAlready copied to ${keep.name}: ${copied.join(", ")}` : ""}${warning}`,
+                },
+              ],
+              payload: { data: { merged: false, copiedAttachments: copied, failedAttachments: failed } },
+            };
+          }
+
+          if (Object.keys(patch).length > 0) {
+            const updated = await client.updateItem(keep.id!, patch);
+            changes.push({
+              operation: "item.update",
+              target: { type: "item", id: keep.id!, name: keep.name },
+              before: keep,
+              after: updated,
+            });
+          }
+          // Re-read the duplicate so a quantity change since the preview isn't lost
+          const latest = await client.getItem(merge.id!);
+          const adjustment = await client.adjustQuantity(keep.id!, latest.quantity ?? 0, {
+            allowNegative: true,
+          });
+          changes.push({
+            operation: "item.adjust",
+            target: { type: "item", id: keep.id!, name: keep.name },
+            before: { quantity: adjustment.previousQuantity },
+            after: { quantity: adjustment.newQuantity },
+          });
+          await client.deleteItem(merge.id!);
+          changes.push({
+            operation: "item.delete",
+            target: { type: "item", id: merge.id!, name: merge.name },
+            before: latest,
+          });
+          const updated = adjustment.item;
+          builtSearchIndex(params.instance)?.upsert(updated);
+          builtSearchIndex(params.instance)?.remove(merge.id!);
+          const warning = await record(params.instance, "homebox_merge_items", callId, changes);
+
+          const text = `✓ Merged ${merge.name} into ${updated.name}:\n• Quantity: ${adjustment.previousQuantity} + ${latest.quantity ?? 0} → ${adjustment.newQuantity}${copied.length > 0 ? `\n• Attachments copied: ${copied.join(", ")}` : ""}${patch.notes ? "\n• Notes combined" : ""}\n• Deleted ${merge.name} (ID: ${merge.id})${warning}`;
+          const locationTree = await client.getLocationHierarchy();
+
+          return {
+            content: [{ type: "text", text }],
+            payload: {
+              items: [itemPayload(locationTree, updated)],
+              data: { merged: true, deletedItemId: merge.id, copiedAttachments: copied },
+            },
           };
+        } catch (error) {
+          return toolError("merge items", error);
         }
       },
     });
+    // Tool 14: List labels
+    registerTool({
+      name: "homebox_get_labels",
+      description: "List all labels (tags) with their IDs, e.g. 'ESD-sensitive', 'SMD', 'needs repair'",
+      parameters: {
+        type: "object",
+        properties: {
+          instance: instanceProperty,
+        },
+      },
+      async execute(_id, params: { instance?: string }) {
+        try {
+          const client = getClient(params.instance);
+          const labels = await client.getLabels();
+          if (labels.length === 0) {
+            return {
+              content: [{ type: "text", text: "No labels defined yet" }],
+              payload: { labels: [] },
+            };
+          }
+          const lines = labels
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(
+              (label) =>
+                `• ${label.name} (${label.id})${label.description ? `: ${label.description}` : ""}`
+            );
+          return {
+            content: [{ type: "text", text: `Labels:\n${lines.join("\n")}` }],
+            payload: { labels: labels.map(labelPayload) },
+          };
+        } catch (error) {
+          return toolError("get labels", error);
+        }
+      },
+    });
+    // Tool 15: Create a label
+    registerTool({
+      name: "homebox_create_label",
+      description: "Create a new label (tag) that items can carry",
+      parameters: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description: "Label name (e.g., 'ESD-sensitive')",
+          },
+          description: {
+            type: "string",
+            description: "Optional description",
+          },
+          color: {
+            type: "string",
+            description: "Optional color, e.g. '#ff0000'",
+          },
+          instance: instanceProperty,
+        },
+        required: ["name"],
+      },
+      async execute(
+        callId,
+        params: { name: string; description?: string; color?: string; instance?: string }
+      ) {
+        try {
+          const { instance, ...fields } = params;
+          const client = getClient(instance);
+          const label = await client.createLabel(fields);
+          const warning = await record(
+            instance,
+            "homebox_create_label",
+            callId,
+            createdLabelChanges([label])
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `✓ Label created: ${label.name} (ID: ${label.id})${warning}`,
+              },
+            ],
+            payload: { labels: [labelPayload(label)] },
+          };
+        } catch (error) {
+          return toolError("create label", error);
+        }
+      },
+    });
+    // Tool 16: Update a label
+    registerTool({
+      name: "homebox_update_label",
+      description: "Rename a label or change its description or color",
+      parameters: {
+        type: "object",
+        properties: {
+          labelId: {
+            type: "string",
+            description: "The label to update: an ID or name",
+          },
+          name: {
+            type: "string",
+            description: "New name",
+          },
+          description: {
+            type: "string",
+            description: "New description",
+          },
+          color: {
+            type: "string",
+            description: "New color",
+          },
+          instance: instanceProperty,
+        },
+        required: ["labelId"],
+      },
+      async execute(
+        callId,
+        params: {
+          labelId: string;
+          name?: string;
+          description?: string;
+          color?: string;
+          instance?: string;
+        }
+      ) {
+        try {
+          const client = getClient(params.instance);
+          const {
+            ids: [labelId],
+          } = await client.resolveLabels([params.labelId]);
+          const before = await client.getLabel(labelId);
+          const label = await client.updateLabel(labelId, {
+            name: params.name,
+            description: params.description,
+            color: params.color,
+          });
+          const warning = await record(params.instance, "homebox_update_label", callId, [
+            {
+              operation: "label.update",
+              target: { type: "label", id: labelId, name: before.name },
+              before,
+              after: label,
+            },
+          ]);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `✓ Label updated: ${label.name} (ID: ${label.id})${warning}`,
+              },
+            ],
+            payload: { labels: [labelPayload(label)] },
+          };
+        } catch (error) {
+          return toolError("update label", error);
+        }
+      },
+    });
+    // Tool 17: Delete a label
+    registerTool({
+      name: "homebox_delete_label",
+      description: "Permanently delete a label (items keep existing, they just lose the label)",
+      parameters: {
+        type: "object",
+        properties: {
+          labelId: {
+            type: "string",
+            description: "The label to delete: an ID or name",
+          },
+          instance: instanceProperty,
+        },
+        required: ["labelId"],
+      },
+      async execute(callId, params: { labelId: string; instance?: string }) {
+        try {
+          const client = getClient(params.instance);
+          const {
+            ids: [labelId],
+          } = await client.resolveLabels([params.labelId]);
+          const before = await client.getLabel(labelId);
+          await client.deleteLabel(labelId);
+          const warning = await record(params.instance, "homebox_delete_label", callId, [
+            {
+              operation: "label.delete",
+              target: { type: "label", id: labelId, name: before.name },
+              before,
+            },
+          ]);
+          return {
+            content: [{ type: "text", text: `✓ Label deleted successfully${warning}` }],
+            payload: { data: { deleted: true, labelId } },
+          };
+        } catch (error) {
+          return toolError("delete label", error);
+        }
+      },
+    });
+    // Tool 18: Set a low-stock threshold on an item or label
+    registerTool({
+      name: "homebox_set_threshold",
+      description:
+        "Set the minimum quantity for an item, or for every item with a label (e.g., all 'Consumables'). Items at or below it show up in homebox_low_stock",
+      parameters: {
+        type: "object",
+        properties: {
+          itemId: {
+            type: "string",
+            description: "The item to set a threshold on (stored as custom fields on the item)",
+          },
+          label: {
+            type: "string",
+            description: "Label name or ID whose items share the threshold; an item's own threshold wins",
+          },
+          minQuantity: {
+            type: "number",
+            description: "Reorder when quantity is at or below this",
+          },
+          reorderQuantity: {
+            type: "number",
+            description: "How many to order (default: enough to reach twice the minimum)",
+          },
+          clear: {
+            type: "boolean",
+            description: "Remove the threshold instead of setting it",
+          },
+          instance: instanceProperty,
+        },
+      },
+      async execute(
+        callId,
+        params: {
+          itemId?: string;
+          label?: string;
+          minQuantity?: number;
+          reorderQuantity?: number;
+          clear?: boolean;
+          instance?: string;
+        }
+      ) {
+        try {
+          if (Boolean(params.itemId) === Boolean(params.label)) {
+            throw new Error("Pass exactly one of itemId or label");
+          }
+          if (!params.clear && (params.minQuantity === undefined || params.minQuantity < 0)) {
+            throw new Error("minQuantity must be 0 or more (or pass clear: true)");
+          }
+          const threshold = params.clear
+            ? null
+            : { minQuantity: params.minQuantity!, reorderQuantity: params.reorderQuantity };
+          const summary = threshold
+            ? `min ${threshold.minQuantity}${threshold.reorderQuantity !== undefined ? `, reorder ${threshold.reorderQuantity}` : ""}`
+            : "cleared";
+
+          const client = getClient(params.instance);
+          if (params.itemId) {
+            const { before: item, item: updated } = await client.modifyItem(
+              params.itemId,
+              (current) => ({ fields: withItemThreshold(current, threshold) })
+            );
+            builtSearchIndex(params.instance)?.upsert(updated);
+            const warning = await record(params.instance, "homebox_set_threshold", callId, [
+              {
+                operation: "item.update",
+                target: { type: "item", id: params.itemId, name: updated.name },
+                before: item,
+                after: updated,
+              },
+            ]);
+            return {
+              content: [{ type: "text", text: `✓ Threshold for ${updated.name}: ${summary}${warning}` }],
+              payload: { data: { itemId: params.itemId, threshold } },
+            };
+          }
+
+          const {
+            ids: [labelId],
+          } = await client.resolveLabels([params.label!]);
+          const label = await client.getLabel(labelId);
+          await getThresholdStore(params.instance).setLabelThreshold(labelId, threshold);
+          return {
+            content: [{ type: "text", text: `✓ Threshold for label ${label.name}: ${summary}` }],
+            payload: { labels: [labelPayload(label)], data: { labelId, threshold } },
+          };
+        } catch (error) {
+          return toolError("set threshold", error);
+        }
+      },
+    });
+    // Tool 19: Report items at or below their threshold
+    registerTool({
+      name: "homebox_low_stock",
+      description:
+        "List every item at or below its minimum quantity (item or label threshold), with a suggested reorder quantity and last supplier",
+      parameters: {
+        type: "object",
+        properties: {
+          groupBy: {
+            type: "string",
+            enum: ["location", "label"],
+            description: "Group the report by location (default) or label",
+          },
+          instance: instanceProperty,
+        },
+      },
+      async execute(_id, params: { groupBy?: "location" | "label"; instance?: string }) {
+        try {
+          const client = getClient(params.instance);
+          const labelThresholds = await getThresholdStore(params.instance).labelThresholds();
+          // Item thresholds are custom fields, which only full item details carry
+          const items = await currentItemDetails(params.instance);
+          const locationTree = await client.getLocationHierarchy();
+
+          const low = items.flatMap((item) => {
+            const threshold = effectiveThreshold(item, labelThresholds);
+            return threshold && item.quantity <= threshold.minQuantity ? [{ item, threshold }] : [];
+          });
+
+          if (low.length === 0) {
+            return {
+              content: [{ type: "text", text: "Nothing is at or below its threshold" }],
+              payload: { items: [], data: { entries: [] } },
+            };
+          }
+
+          const groups = new Map<string, string[]>();
+          for (const { item, threshold } of low) {
+            const reorder = suggestedReorderQuantity(item.quantity, threshold);
+            const line = `• ${item.name} (ID: ${item.id}): ${item.quantity} left, min ${threshold.minQuantity}${threshold.source !== "item" ? ` (label ${threshold.source})` : ""} → reorder ${reorder}${item.purchaseFrom ? ` from ${item.purchaseFrom}` : ""}`;
+            const keys =
+              params.groupBy === "label"
+                ? item.labels?.length
+                  ? item.labels.map((label) => label.name)
+                  : ["(no label)"]
+                : [itemLocationPath(locationTree, item)];
+            for (const key of keys) {
+              if (!groups.has(key)) groups.set(key, []);
+              groups.get(key)!.push(line);
+            }
+          }
+
+          const sections = [...groups.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, lines]) => `${key}:\n${lines.join("\n")}`);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Low stock (${low.length} ${low.length === 1 ? "item" : "items"}):\n\n${sections.join("\n\n")}`,
+              },
+            ],
+            payload: {
+              items: low.map(({ item }) => itemPayload(locationTree, item)),
+              data: {
+                entries: low.map(({ item, threshold }) => ({
+                  itemId: item.id,
+                  quantity: item.quantity,
+                  minQuantity: threshold.minQuantity,
+                  thresholdSource: threshold.source,
+                  reorderQuantity: suggestedReorderQuantity(item.quantity, threshold),
+                  supplier: item.purchaseFrom || undefined,
+                })),
+              },
+            },
+          };
+        } catch (error) {
+          return toolError("build low-stock report", error);
+        }
+      },
+    });
+    // Tool 20: Report warranties and consumables expiring soon
+    registerTool({
+      name: "homebox_expiring",
+      description:
+        "List warranties and consumable expiry dates (from an 'Expires' custom field or an 'Expires: YYYY-MM-DD' line in notes) that fall within the next N days, plus anything already expired",
+      parameters: {
+        type: "object",
+        properties: {
+          days: {
+            type: "number",
+            description: "Look this many days ahead (default: 30)",
+          },
+          kind: {
+            type: "string",
+            enum: ["all", "warranty", "expiry"],
+            description: "Warranties, consumable expiry dates, or both (default: all)",
+          },
+          includeExpired: {
+            type: "boolean",
+            description: "Also list dates that have already passed (default: true)",
+          },
+          instance: instanceProperty,
+        },
+      },
+      async execute(
+        _id,
+        params: {
+          days?: number;
+          kind?: "all" | "warranty" | "expiry";
+          includeExpired?: boolean;
+          instance?: string;
+        }
+      ) {
+        try {
+          const days = params.days ?? 30;
+          const kind = params.kind ?? "all";
+          const client = getClient(params.instance);
+          // Warranty dates, custom fields and notes are only on full item details
+          const items = await currentItemDetails(params.instance);
+          const locationTree = await client.getLocationHierarchy();
+
+          const entries = items
+            .flatMap((item) => expiryEntries(item))
+            .filter((entry) => kind === "all" || entry.kind === kind)
+            .sort((a, b) => a.date.localeCompare(b.date));
+          const upcoming = entries.filter((entry) => entry.daysLeft >= 0 && entry.daysLeft <= days);
+          const expired =
+            params.includeExpired === false ? [] : entries.filter((entry) => entry.daysLeft < 0);
+
+          if (upcoming.length === 0 && expired.length === 0) {
+            return {
+              content: [{ type: "text", text: `Nothing expires in the next ${days} days` }],
+              payload: { items: [], data: { entries: [] } },
+            };
+          }
+
+          const formatEntry = (entry: ExpiryEntry) => {
+            const when =
+              entry.daysLeft === 0
+                ? "today"
+                : entry.daysLeft > 0
+                  ? `in ${entry.daysLeft} ${entry.daysLeft === 1 ? "day" : "days"}`
+                  : `${-entry.daysLeft} ${entry.daysLeft === -1 ? "day" : "days"} ago`;
+            const what = entry.kind === "warranty" ? "Warranty" : `Expiry (${entry.source})`;
+            return `• ${entry.date} (${when}) — ${what}: ${entry.item.name} (ID: ${entry.item.id}) @ ${itemLocationPath(locationTree, entry.item)}`;
+          };
+
+          const sections: string[] = [];
+          if (upcoming.length > 0) {
+            sections.push(
+              `Expiring within ${days} days (${upcoming.length}):\n${upcoming.map(formatEntry).join("\n")}`
+            );
+          }
+          if (expired.length > 0) {
+            sections.push(
+              `Already expired (${expired.length}):\n${expired.map(formatEntry).join("\n")}`
+            );
+          }
+
+          const listed = [...upcoming, ...expired];
+          return {
+            content: [{ type: "text", text: sections.join("\n\n") }],
+            payload: {
+              items: [...new Set(listed.map((entry) => entry.item))].map((item) =>
+                itemPayload(locationTree, item)
+              ),
+              data: {
+                entries: listed.map((entry) => ({
+                  itemId: entry.item.id,
+                  kind: entry.kind,
+                  date: entry.date,
+                  daysLeft: entry.daysLeft,
+                  source: entry.source,
+                })),
+              },
+            },
+          };
+        } catch (error) {
+          return toolError("build expiry report", error);
+        }
+      },
+    });
+    // Tool 21: Bulk import items from CSV or JSON
+    registerTool({
+      name: "homebox_import",
+      description:
+        "Import many items at once from a CSV or JSON file (or inline content). Validates every row first and reports errors and likely duplicates; with dryRun nothing is written. Each run gets an ID that homebox_import_rollback can undo",
+      parameters: {
+        type: "object",
+        properties: {
+          filePath: {
+            type: "string",
+            description: "Path to a .csv or .json file",
+          },
+          content: {
+            type: "string",
+            description: "CSV or JSON text to import instead of a file",
+          },
+          format: {
+            type: "string",
+            enum: ["csv", "json"],
+            description: "Input format (default: from the file extension or content)",
+          },
+          mapping: {
+            type: "object",
+            additionalProperties: { type: "string" },
+            description: `Column name → item field, for columns not recognized automatically (e.g., {"Mfr Part #": "modelNumber"}); map to "" to ignore a column. Fields: ${IMPORT_FIELDS.join(", ")}`,
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Only validate and report what would be imported",
+          },
+          createMissingLocations: {
+            type: "boolean",
+            description: "Create locations (paths like 'Garage/Shelf 9') that don't exist yet",
+          },
+          createMissingLabels: {
+            type: "boolean",
+            description: "Create labels that don't exist yet",
+          },
+          allowDuplicates: {
+            type: "boolean",
+            description: "Also import rows that look like duplicates (skipped by default)",
+          },
+          skipInvalid: {
+            type: "boolean",
+            description: "Import the valid rows even if some rows have errors (default: import nothing)",
+          },
+          instance: instanceProperty,
+        },
+      },
+      async execute(callId, params: any) {
+        try {
+          if (Boolean(params.filePath) === Boolean(params.content)) {
+            throw new Error("Pass exactly one of filePath or content");
+          }
+          const source = params.filePath ? resolve(params.filePath) : "(inline content)";
+          const content = params.filePath ? await readFile(source, "utf8") : params.content;
+          const format: ImportFormat = params.format ?? detectFormat(content, params.filePath);
+          const records = readRecords(content, format);
+          if (records.length === 0) {
+            return {
+              content: [{ type: "text", text: `✗ No rows found in ${source}` }],
+              payload: { data: { imported: 0 } },
+            };
+          }
+
+          const client = getClient(params.instance);
+          const plan = await planImport(client, getSearchIndex(params.instance), records, {
+            mapping: params.mapping,
+            createMissingLocations: params.createMissingLocations,
+            createMissingLabels: params.createMissingLabels,
+          });
+
+          const lines = [
+            `${records.length} rows: ${plan.rows.length} valid, ${new Set(plan.errors.map((error) => error.row)).size} with errors, ${plan.duplicates.length} likely duplicates`,
+          ];
+          if (plan.ignoredColumns.length > 0) {
+            lines.push(`Ignored columns: ${plan.ignoredColumns.join(", ")}`);
+          }
+          if (plan.errors.length > 0) {
+            lines.push(
+              `Errors:\n${plan.errors.map((error) => `• Row ${error.row}: ${error.message}`).join("\n")}`
+            );
+          }
+          if (plan.duplicates.length > 0) {
+            lines.push(
+              `Likely duplicates${params.allowDuplicates ? "" : " (skipped)"}:\n${plan.duplicates
+                .map((duplicate) => {
+                  const matches = duplicate.candidates
+                    .slice(0, 2)
+                    .map((candidate) => `${candidate.item.name} (ID: ${candidate.item.id}): ${candidate.reasons.join(", ")}`);
+                  if (duplicate.sameAsRow !== undefined) matches.unshift(`row ${duplicate.sameAsRow}`);
+                  return `• Row ${duplicate.row}: ${matches.join("; ")}`;
+                })
+                .join("\n")}`
+            );
+          }
+          if (plan.newLocations.length > 0) lines.push(`New locations: ${plan.newLocations.join(", ")}`);
+          if (plan.newLabels.length > 0) lines.push(`New labels: ${plan.newLabels.join(", ")}`);
+          const planData = {
+            rows: records.length,
+            valid: plan.rows.length,
+            errors: plan.errors,
+            duplicates: plan.duplicates.map((duplicate) => ({
+              row: duplicate.row,
+              sameAsRow: duplicate.sameAsRow,
+              itemIds: duplicate.candidates.map((candidate) => candidate.item.id),
+            })),
+            newLocations: plan.newLocations,
+            newLabels: plan.newLabels,
+          };
+
+          if (params.dryRun) {
+            return {
+              content: [{ type: "text", text: `Dry run, nothing imported:\n${lines.join("\n")}` }],
+              payload: { data: { dryRun: true, imported: 0, ...planData } },
+            };
+          }
+          if (plan.errors.length > 0 && !params.skipInvalid) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `✗ Nothing imported: fix the errors below, or call again with skipInvalid: true to import only the valid rows\n${lines.join("\n")}`,
+                },
+              ],
+              payload: { data: { dryRun: false, imported: 0, ...planData } },
+            };
+          }
+
+          const runId = newImportRunId();
+          const manifest = await runImport(client, plan, {
+            importsDir: join(getDataDir(params.instance), "imports"),
+            runId,
+            source,
+            allowDuplicates: params.allowDuplicates,
+            onCreated: (item) => builtSearchIndex(params.instance)?.upsert(item),
+          }).catch((error) => {
+            throw new Error(
+              `${describeError(error)}. Anything created before this is recorded under run ID ${runId}; remove it with homebox_import_rollback`
+            );
+          });
+          const warning = await record(params.instance, "homebox_import", callId, [
+            {
+              operation: "import.run",
+              target: { type: "import", id: runId, name: source },
+              after: { created: manifest.created.length },
+            },
+          ]);
+
+          const summary = [
+            `✓ Imported ${manifest.created.length} items (run ID: ${runId})${warning}`,
+            ...lines,
+          ];
+          if (manifest.createdLocations.length > 0) {
+            summary.push(`Created ${manifest.createdLocations.length} locations`);
+          }
+          if (manifest.createdLabels.length > 0) {
+            summary.push(`Created ${manifest.createdLabels.length} labels`);
+          }
+          if (manifest.failed.length > 0) {
+            summary.push(
+              `Failed:\n${manifest.failed.map((failure) => `• Row ${failure.row}: ${failure.message}`).join("\n")}`
+            );
+          }
+          summary.push(`Undo with homebox_import_rollback runId: "${runId}"`);
+
+          return {
+            content: [{ type: "text", text: summary.join("\n") }],
+            payload: {
+              data: {
+                dryRun: false,
+                imported: manifest.created.length,
+                runId,
+                ...planData,
+                created: manifest.created,
+                failed: manifest.failed,
+              },
+            },
+          };
+        } catch (error) {
+          return toolError("import items", error);
+        }
+      },
+    });
+    // Tool 22: Roll back an import run
+    registerTool({
+      name: "homebox_import_rollback",
+      description:
+        "Undo a homebox_import run: delete the items it created, plus the locations and labels it created if nothing else uses them. Without runId, lists recent imports",
+      parameters: {
+        type: "object",
+        properties: {
+          runId: {
+            type: "string",
+            description: "The run ID printed by homebox_import",
+          },
+          instance: instanceProperty,
+        },
+      },
+      async execute(callId, params: { runId?: string; instance?: string }) {
+        try {
+          const importsDir = join(getDataDir(params.instance), "imports");
+          if (!params.runId) {
+            const runs = (await listImports(importsDir)).slice(0, 10);
+            if (runs.length === 0) {
+              return {
+                content: [{ type: "text", text: "No imports recorded yet" }],
+                payload: { data: { runs: [] } },
+              };
+            }
+            const lines = runs.map(
+              (run) =>
+                `• ${run.runId}: ${run.created.length} items from ${run.source}${run.rolledBackAt ? " [rolled back]" : run.finishedAt ? "" : " [incomplete]"}`
+            );
+            return {
+              content: [{ type: "text", text: `Recent imports:\n${lines.join("\n")}` }],
+              payload: {
+                data: {
+                  runs: runs.map((run) => ({
+                    runId: run.runId,
+                    source: run.source,
+                    startedAt: run.startedAt,
+                    created: run.created.length,
+                    status: run.rolledBackAt ? "rolled back" : run.finishedAt ? "finished" : "incomplete",
+                  })),
+                },
+              },
+            };
+          }
+
+          const client = getClient(params.instance);
+          const changes: JournalChange[] = [];
+          let warning = "";
+          let result: RollbackResult;
+          try {
+            result = await rollbackImport(client, importsDir, params.runId, {
+              onDeleted: (deleted) => {
+                const id = deleted.before.id!;
+                if (deleted.type === "item") builtSearchIndex(params.instance)?.remove(id);
+                changes.push({
+                  operation: `${deleted.type}.delete`,
+                  target: { type: deleted.type, id, name: deleted.before.name },
+                  before: deleted.before,
+                });
+              },
+            });
+          } finally {
+            // Journal whatever was deleted, even if the rollback stopped part way
+            if (changes.length > 0) {
+              warning = await record(params.instance, "homebox_import_rollback", callId, changes);
+            }
+          }
+          const kept =
+            result.keptLocations + result.keptLabels > 0
+              ? `\n• Kept ${result.keptLocations} locations and ${result.keptLabels} labels that are still in use`
+              : "";
+          const failed =
+            result.failed.length > 0
+              ? `\n✗ Could not remove:\n${result.failed.map((line) => `• ${line}`).join("\n")}`
+              : "";
+          const status =
+            result.failed.length > 0
+              ? `⚠ Partly rolled back import ${params.runId}; call again to retry what is left`
+              : `✓ Rolled back import ${params.runId}`;
+          const text = `${status}:\n• Deleted ${result.deletedItems} items${result.alreadyGone ? ` (${result.alreadyGone} were already gone)` : ""}\n• Deleted ${result.deletedLocations} locations and ${result.deletedLabels} labels${kept}${failed}${warning}`;
+
+          return {
+            content: [{ type: "text", text }],
+            payload: { data: { runId: params.runId, ...result } },
+          };
+        } catch (error) {
+          return toolError("roll back import", error);
+        }
+      },
+    });
+    // Tool 23: Export inventory to CSV, JSON or Markdown
+    registerTool({
+      name: "homebox_export",
+      description:
+        "Export the inventory (or one location/label) as CSV, JSON or Markdown (a section per location with item tables and attachment links), to a file or inline",
+      parameters: {
+        type: "object",
+        properties: {
+          format: {
+            type: "string",
+            enum: ["csv", "json", "markdown"],
+            description: "Output format (default: markdown)",
+          },
+          outputPath: {
+            type: "string",
+            description: "File to write (not available in read-only mode); without it the export is returned as text",
+          },
+          locationId: {
+            type: "string",
+            description: "Only export this location (ID, name, or path) and everything nested in it",
+          },
+          labels: {
+            type: "array",
+            items: { type: "string" },
+            description: "Only export items carrying all of these labels (names or IDs)",
+          },
+          includeArchived: {
+            type: "boolean",
+            description: "Include archived items (default: false)",
+          },
+          instance: instanceProperty,
+        },
+      },
+      async execute(
+        _id,
+        params: {
+          format?: ExportFormat;
+          outputPath?: string;
+          locationId?: string;
+          labels?: string[];
+          includeArchived?: boolean;
+          instance?: string;
+        }
+      ) {
+        try {
+          // A public-facing read-only agent shouldn't be able to write files
+          if (readOnly && params.outputPath) {
+            throw new Error("outputPath is not available in read-only mode; leave it out to get the export as text");
+          }
+          const client = getClient(params.instance);
+          const format = params.format ?? "markdown";
+          const filters: ItemFilters = {
+            archived: params.includeArchived ? "include" : "exclude",
+          };
+          if (params.locationId) {
+            filters.locationIds = [(await client.resolveLocation(params.locationId)).id];
+            filters.includeSubLocations = true;
+          }
+          if (params.labels?.length) {
+            filters.labelIds = (await client.resolveLabels(params.labels)).ids;
+          }
+
+          const { items } = await client.findItems(filters);
+          const locationTree = await client.getLocationHierarchy();
+          const output = renderExport(format, locationTree, items, {
+            item: (itemId) => client.itemUrl(itemId),
+            attachment: (itemId, attachmentId) => client.attachmentUrl(itemId, attachmentId),
+          });
+
+          if (!params.outputPath) {
+            return {
+              content: [{ type: "text", text: output }],
+              payload: {
+                summary: `Exported ${items.length} ${items.length === 1 ? "item" : "items"} as ${format}`,
+                data: { format, itemCount: items.length, output },
+              },
+            };
+          }
+
+          const outputPath = resolve(params.outputPath);
+          await writeTextFile(outputPath, output);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `✓ Exported ${items.length} ${items.length === 1 ? "item" : "items"} as ${format} to ${outputPath}`,
+              },
+            ],
+            payload: { data: { format, itemCount: items.length, outputPath } },
+          };
+        } catch (error) {
+          return toolError("export inventory", error);
+        }
+      },
+    });
+    // Tool 24: Query the audit journal
+    registerTool({
+      name: "homebox_history",
+      description:
+        "Show what tools changed in HomeBox (newest first), from the local audit journal: who (tool call), when, and what. Filter by item/location/label ID, tool or tool call",
+      parameters: {
+        type: "object",
+        properties: {
+          targetId: {
+            type: "string",
+            description: "Only changes to this item, location, label or import run",
+          },
+          tool: {
+            type: "string",
+            description: "Only changes made by this tool (e.g., 'homebox_delete_item')",
+          },
+          callId: {
+            type: "string",
+            description: "Only changes made by this tool call",
+          },
+          since: {
+            type: "string",
+            description: "Only changes at or after this date/time (ISO, e.g. '2026-10-01')",
+          },
+          limit: {
+            type: "number",
+            description: "Maximum entries to list (default: 20)",
+          },
+          instance: instanceProperty,
+        },
+      },
+      async execute(
+        _id,
+        params: {
+          targetId?: string;
+          tool?: string;
+          callId?: string;
+          since?: string;
+          limit?: number;
+          instance?: string;
+        }
+      ) {
+        try {
+          const journal = getJournal(params.instance);
+          const undone = Journal.undoneIds(await journal.read());
+          const entries = await journal.query({ ...params, limit: params.limit ?? 20 });
+          if (entries.length === 0) {
+            return {
+              content: [{ type: "text", text: "No matching changes in the journal" }],
+              payload: { data: { entries: [] } },
+            };
+          }
+          const lines = entries.map(
+            (entry) =>
+              `• ${entry.timestamp.replace("T", " ").slice(0, 19)} ${entry.tool} (call ${entry.callId}, entry ${entry.id}): ${describeEntry(entry)}${undone.has(entry.id) ? " [undone]" : ""}`
+          );
+          return {
+            content: [{ type: "text", text: `Changes, newest first:\n${lines.join("\n")}` }],
+            payload: {
+              data: {
+                entries: entries.map((entry) => ({
+                  id: entry.id,
+                  timestamp: entry.timestamp,
+                  tool: entry.tool,
+                  callId: entry.callId,
+                  operation: entry.operation,
+                  target: entry.target,
+                  description: describeEntry(entry),
+                  undone: undone.has(entry.id),
+                })),
+              },
+            },
+          };
+        } catch (error) {
+          return toolError("read history", error);
+        }
+      },
+    });
+    // Tool 25: Undo recent changes
+    registerTool({
+      name: "homebox_undo",
+      description:
+        "Reverse recent changes recorded in the audit journal: the last N tool calls (default 1), one tool call, or one journal entry. Deleted items and locations are re-created from their snapshots (with new IDs; attachments can't be restored)",
+      parameters: {
+        type: "object",
+        properties: {
+          count: {
+            type: "number",
+            description: "Undo the last N tool calls that changed something (default: 1)",
+          },
+          callId: {
+            type: "string",
+            description: "Undo every change made by this tool call (see homebox_history)",
+          },
+          entryId: {
+            type: "string",
+            description: "Undo a single journal entry",
+          },
+          dryRun: {
+            type: "boolean",
+            description: "List what would be undone without changing anything",
+          },
+          force: {
+            type: "boolean",
+            description: "Undo even if the item was changed again since",
+          },
+          instance: instanceProperty,
+        },
+      },
+      async execute(
+        callId,
+        params: {
+          count?: number;
+          callId?: string;
+          entryId?: string;
+          dryRun?: boolean;
+          force?: boolean;
+          instance?: string;
+        }
+      ) {
+        try {
+          const journal = getJournal(params.instance);
+          const all = await journal.read();
+          const undone = Journal.undoneIds(all);
+          const undoable = all
+            .filter((entry) => entry.operation !== "undo" && !undone.has(entry.id))
+            .reverse();
+
+          let selected: JournalEntry[];
+          if (params.entryId) {
+            selected = undoable.filter((entry) => entry.id === params.entryId);
+          } else if (params.callId) {
+            selected = undoable.filter((entry) => entry.callId === params.callId);
+          } else {
+            const calls = [...new Set(undoable.map((entry) => entry.callId))].slice(
+              0,
+              Math.max(params.count ?? 1, 1)
+            );
+            selected = undoable.filter((entry) => calls.includes(entry.callId));
+          }
+
+          if (selected.length === 0) {
+            return {
+              content: [{ type: "text", text: "Nothing to undo (no matching changes that haven't been undone)" }],
+              payload: { data: { undone: 0 } },
+            };
+          }
+
+          if (params.dryRun) {
+            const lines = selected.map((entry) => `• ${entry.tool}: ${describeEntry(entry)}`);
+            return {
+              content: [
+                { type: "text", text: `Would undo ${selected.length} changes, newest first:\n${lines.join("\n")}` },
+              ],
+              payload: {
+                data: {
+                  dryRun: true,
+                  undone: 0,
+                  entryIds: selected.map((entry) => entry.id),
+                },
+              },
+            };
+          }
+
+          const client = getClient(params.instance);
+          const replacements = Journal.replacements(all);
+          const done: string[] = [];
+          const doneIds: string[] = [];
+          const warnings: string[] = [];
+          let journalWarning = "";
+          // Newest first, stopping at the first failure so older changes aren't undone out of order
+          for (const [index, entry] of selected.entries()) {
+            let outcome: UndoOutcome;
+            try {
+              outcome = await undoEntry(client, entry, {
+                replacements,
+                importsDir: join(getDataDir(params.instance), "imports"),
+                force: params.force,
+              });
+            } catch (error) {
+              const remaining = selected.length - index - 1;
+              const text = `${done.length > 0 ? `✓ Undid ${done.length} changes:\n${done.map((line) => `• ${line}`).join("\n")}\n` : ""}✗ Stopped at ${describeEntry(entry)}: ${describeError(error)}${remaining > 0 ? `\n${remaining} older changes were not undone` : ""}${journalWarning}`;
+              return {
+                content: [{ type: "text", text }],
+                payload: {
+                  ok: false,
+                  error: `Stopped at ${describeEntry(entry)}: ${describeError(error)}`,
+                  data: { dryRun: false, undone: done.length, entryIds: doneIds, failedEntryId: entry.id },
+                },
+              };
+            }
+
+            if (outcome.replacementId) replacements.set(entry.target.id, outcome.replacementId);
+            done.push(outcome.summary);
+            doneIds.push(entry.id);
+            warnings.push(...outcome.warnings);
+            journalWarning =
+              (await record(params.instance, "homebox_undo", callId, [
+                {
+                  operation: "undo",
+                  target: entry.target,
+                  undoOf: entry.id,
+                  replacementId: outcome.replacementId,
+                },
+              ])) || journalWarning;
+
+            if (entry.target.type === "item") {
+              const itemId = currentId(replacements, entry.target.id);
+              await client.getItem(itemId).then(
+                (item) => builtSearchIndex(params.instance)?.upsert(item),
+                () => builtSearchIndex(params.instance)?.remove(itemId)
+              );
+            }
+          }
+
+          const text = `✓ Undid ${done.length} changes:\n${done.map((line) => `• ${line}`).join("\n")}${warnings.length > 0 ? `\n⚠ ${warnings.join("\n⚠ ")}` : ""}${journalWarning}`;
+          return {
+            content: [{ type: "text", text }],
+            payload: { data: { dryRun: false, undone: done.length, entryIds: doneIds } },
+          };
+        } catch (error) {
+          return toolError("undo", error);
+        }
+      },
+    });
+    // Tool 26: Search every configured instance at once
+    registerTool({
+      name: "homebox_search_all",
+      description:
+        "Search every configured HomeBox instance (e.g., workshop and home) at once and merge the results, each labeled with the instance it came from",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "What to search for",
+          },
+          mode: {
+            type: "string",
+            enum: ["keyword", "fuzzy"],
+            description: "'keyword' (default) uses each HomeBox's search; 'fuzzy' uses the local typo-tolerant index",
+          },
+          instances: {
+            type: "array",
+            items: { type: "string" },
+            description: `Only search these instances (default: all of ${settings.instances.map((instance) => instance.name).join(", ")})`,
+          },
+          limit: {
+            type: "number",
+            description: "Maximum results per instance (default: 10, max: 50)",
+          },
+        },
+        required: ["query"],
+      },
+      async execute(
+        _id,
+        params: { query: string; mode?: "keyword" | "fuzzy"; instances?: string[]; limit?: number }
+      ) {
+        try {
+          const limit = Math.min(Math.max(params.limit ?? 10, 1), 50);
+          const names = params.instances?.length
+            ? params.instances.map((name) => getInstance(name).name)
+            : settings.instances.map((instance) => instance.name);
+
+          const results = await Promise.allSettled(
+            names.map(async (name) => {
+              const client = getClient(name);
+              const locationTree = await client.getLocationHierarchy();
+              if (params.mode === "fuzzy") {
+                const index = getSearchIndex(name);
+                await index.ensureFresh();
+                const matches = index.search(params.query);
+                return {
+                  locationTree,
+                  total: matches.length,
+                  hits: matches.slice(0, limit).map(({ item, score }) => ({ item, score })),
+                };
+              }
+              const filters: ItemFilters = { query: params.query };
+              const { values, remainder } = extractComponentValues(params.query);
+              if (values.length > 0) {
+                filters.query = remainder || undefined;
+                filters.componentValues = values;
+              }
+              const { items, total } = await client.findItems(filters, { limit });
+              return { locationTree, total, hits: items.map((item) => ({ item, score: 0 })) };
+            })
+          );
+
+          const merged: { line: string; name: string; score: number; payload: ItemPayload }[] = [];
+          const summary: string[] = [];
+          const totals: Record<string, number | undefined> = {};
+          const failures: string[] = [];
+          const failedInstances: { instance: string; error: string }[] = [];
+          results.forEach((result, i) => {
+            const name = names[i];
+            if (result.status === "rejected") {
+              failures.push(`• ${name}: ${describeError(result.reason)}`);
+              failedInstances.push({ instance: name, error: describeError(result.reason) });
+              return;
+            }
+            const { locationTree, total, hits } = result.value;
+            totals[name] = total;
+            summary.push(
+              `${name}: ${total === undefined ? `${hits.length}+` : hits.length < total ? `${hits.length} of ${total}` : total}`
+            );
+            for (const { item, score } of hits) {
+              merged.push({
+                line: formatItemLine(locationTree, item).replace(/^• /, `• [${name}] `),
+                name: item.name,
+                score,
+                payload: { ...itemPayload(locationTree, item), instance: name },
+              });
+            }
+          });
+          // Best fuzzy matches first; keyword results alphabetically
+          merged.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+
+          let text =
+            merged.length === 0
+              ? `No items found (${summary.join(", ") || "no instances searched"}).`
+              : `Found ${merged.length} items (${summary.join(", ")}):\n${merged.map((hit) => hit.line).join("\n")}`;
+          if (failures.length > 0) {
+            text += `\n✗ Could not search ${failures.length} ${failures.length === 1 ? "instance" : "instances"}:\n${failures.join("\n")}`;
+          }
+          return {
+            content: [{ type: "text", text }],
+            payload: {
+              items: merged.map((hit) => hit.payload),
+              data: { totals, failures: failedInstances },
+            },
+          };
+        } catch (error) {
+          return toolError("search all instances", error);
+        }
+      },
+    });
+
+    // Tool 27: Lend an item out
+    registerTool({
+      name: "homebox_checkout",
+      description:
+        "Lend an item to someone: records who has it, since when, when it's due back and where it came from (as custom fields on the item and in a local ledger), and moves it to the \"On loan\" location until homebox_checkin",
+      parameters: {
+        type: "object",
+        properties: {
+          itemId: {
+            type: "string",
+            description: "The ID of the item being lent out",
+          },
+          borrower: {
+            type: "string",
+            description: "Who is taking it (e.g., 'Sam')",
+          },
+          dueDate: {
+            type: "string",
+            description: "When it should be back (YYYY-MM-DD)",
+          },
+          days: {
+            type: "number",
+            description: "Due back this many days from today (instead of dueDate)",
+          },
+          note: {
+            type: "string",
+            description: "Optional note kept in the ledger (e.g., 'for the fence repair')",
+          },
+          instance: instanceProperty,
+        },
+        required: ["itemId", "borrower"],
+      },
+      async execute(
+        callId,
+        params: {
+          itemId: string;
+          borrower: string;
+          dueDate?: string;
+          days?: number;
+          note?: string;
+          instance?: string;
+        }
+      ) {
+        try {
+          const borrower = params.borrower?.trim();
+          if (!borrower) throw new Error("borrower must not be empty");
+          if (params.dueDate && params.days !== undefined) {
+            throw new Error("Pass either dueDate or days, not both");
+          }
+          const today = new Date().toISOString().slice(0, 10);
+          let dueOn: string | undefined;
+          if (params.days !== undefined) {
+            if (!Number.isInteger(params.days) || params.days < 0) {
+              throw new Error("days must be a whole number, 0 or more");
+            }
+            dueOn = new Date(Date.now() + params.days * 24 * 60 * 60 * 1000)
+              .toISOString()
+              .slice(0, 10);
+          } else if (params.dueDate) {
+            const valid =
+              /^\d{4}-\d{2}-\d{2}$/.test(params.dueDate) && !Number.isNaN(Date.parse(params.dueDate));
+            if (!valid) {
+              throw new Error(`dueDate must be a date like 2026-03-31, got "${params.dueDate}"`);
+            }
+            if (params.dueDate < today) throw new Error(`dueDate ${params.dueDate} is in the past`);
+            dueOn = params.dueDate;
+          }
+
+          const client = getClient(params.instance);
+          const onLoan = await client.resolveLocation(ON_LOAN_LOCATION, { createMissing: true });
+          const locationTree = await client.getLocationHierarchy();
+          const loanFor = (item: HomeBoxItem): Loan => ({
+            itemId: params.itemId,
+            itemName: item.name,
+            borrower,
+            loanedOn: today,
+            dueOn,
+            fromLocationId: getItemField(item, "locationId") as string | undefined,
+            fromLocationPath: itemLocationPath(locationTree, item),
+            note: params.note,
+          });
+
+          // Checked and written under the item lock, so two checkouts of one
+          // item can't both succeed
+          const { before: item, item: updated } = await client.modifyItem(
+            params.itemId,
+            async (current) => {
+              const existing = itemLoan(current);
+              if (existing) {
+                throw new Error(
+                  `${current.name} is already on loan to ${existing.borrower} since ${existing.loanedOn}; check it in first`
+                );
+              }
+              const loan = loanFor(current);
+              if (loan.fromLocationId === onLoan.id) {
+                throw new Error(
+                  `${current.name} is already in ${ON_LOAN_LOCATION}; move it to where it belongs before lending it out`
+                );
+              }
+              // Ledger first: a loan the item never got is ignored and replaced on
+              // the next checkout, but an item on loan without its ledger entry
+              // loses the exact location it came from
+              await getLoanLedger(params.instance).checkOut(loan);
+              return { locationId: onLoan.id, fields: withItemLoan(current, loan) };
+            }
+          );
+          const loan = loanFor(item);
+          builtSearchIndex(params.instance)?.upsert(updated);
+          const warning = await record(params.instance, "homebox_checkout", callId, [
+            ...createdLocationChanges(locationTree, onLoan.created),
+            {
+              operation: "item.update",
+              target: { type: "item", id: params.itemId, name: item.name },
+              before: item,
+              after: updated,
+            },
+          ]);
+
+          const text = `✓ Checked out ${item.name} to ${borrower}:\n• From: ${loan.fromLocationPath}\n• Due back: ${dueOn ? `${dueOn} (${dueOn === today ? "today" : `in ${daysUntil(dueOn)} days`})` : "no due date"}${params.note ? `\n• Note: ${params.note}` : ""}\n• Now in: ${locationTree.path(onLoan.id) || ON_LOAN_LOCATION} until homebox_checkin${warning}`;
+          return {
+            content: [{ type: "text", text }],
+            payload: { items: [itemPayload(locationTree, updated)], data: { loan } },
+          };
+        } catch (error) {
+          return toolError("check out item", error);
+        }
+      },
+    });
+
+    // Tool 28: Take a lent item back
+    registerTool({
+      name: "homebox_checkin",
+      description:
+        "Take back an item lent out with homebox_checkout: clears the loan and moves it back to where it came from (or to returnTo)",
+      parameters: {
+        type: "object",
+        properties: {
+          itemId: {
+            type: "string",
+            description: "The ID of the item being returned",
+          },
+          returnTo: {
+            type: "string",
+            description:
+              "Put it here instead of its original location: an ID, name, or path (e.g., 'Garage/Shelf 3')",
+          },
+          instance: instanceProperty,
+        },
+        required: ["itemId"],
+      },
+      async execute(callId, params: { itemId: string; returnTo?: string; instance?: string }) {
+        try {
+          const client = getClient(params.instance);
+          const lent = await client.getItem(params.itemId);
+          const loan = itemLoan(lent);
+          if (!loan) throw new Error(`${lent.name} is not checked out`);
+
+          // The ledger has the exact location ID; the item only has its path
+          const ledger = getLoanLedger(params.instance);
+          const open = await ledger.openLoan(params.itemId);
+          const locationTree = await client.getLocationHierarchy({ maxAgeMs: 0 });
+          let destinationId: string;
+          if (params.returnTo) {
+            destinationId = (await client.resolveLocation(params.returnTo)).id;
+          } else if (open?.fromLocationId && locationTree.has(open.fromLocationId)) {
+            destinationId = open.fromLocationId;
+          } else {
+            try {
+              destinationId = (await client.resolveLocation(loan.fromLocationPath)).id;
+            } catch (error) {
+              throw new Error(
+                `Can't find where ${lent.name} came from (${loan.fromLocationPath || "not recorded"}): ${describeError(error)}. Pass returnTo`
+              );
+            }
+          }
+
+          // Re-checked under the item lock in case another checkin got there first
+          const { before: item, item: updated } = await client.modifyItem(
+            params.itemId,
+            (current) => {
+              if (!itemLoan(current)) throw new Error(`${current.name} is not checked out`);
+              return { locationId: destinationId, fields: withItemLoan(current, null) };
+            }
+          );
+          builtSearchIndex(params.instance)?.upsert(updated);
+          // The item is back either way; a loan left open in the ledger is
+          // ignored since the item no longer carries it
+          let ledgerWarning = "";
+          try {
+            await ledger.checkIn(params.itemId, new Date().toISOString());
+          } catch (error) {
+            api.logger?.warn(`hoard: could not update the loan ledger: ${describeError(error)}`);
+            ledgerWarning = `\n⚠ Loan ledger not updated: ${describeError(error)}`;
+          }
+          const warning = await record(params.instance, "homebox_checkin", callId, [
+            {
+              operation: "item.update",
+              target: { type: "item", id: params.itemId, name: item.name },
+              before: item,
+              after: updated,
+            },
+          ]);
+
+          const overdue = daysOverdue(loan) ?? 0;
+          const text = `✓ Checked in ${item.name} from ${loan.borrower}:\n• Back in: ${locationTree.path(destinationId) || destinationId}\n• On loan since: ${loan.loanedOn || "unknown"}${overdue > 0 ? `\n⚠ Returned ${overdue} ${overdue === 1 ? "day" : "days"} late (due ${loan.dueOn})` : ""}${ledgerWarning}${warning}`;
+          return {
+            content: [{ type: "text", text }],
+            payload: {
+              items: [itemPayload(locationTree, updated)],
+              data: { loan: { ...loan, note: open?.note }, daysLate: Math.max(overdue, 0) },
+            },
+          };
+        } catch (error) {
+          return toolError("check in item", error);
+        }
+      },
+    });
+
+    // Tool 29: Report items out on loan
+    registerTool({
+      name: "homebox_on_loan",
+      description:
+        "List everything currently lent out: who has it, since when, when it's due back and where it goes back to, with overdue items first",
+      parameters: {
+        type: "object",
+        properties: {
+          borrower: {
+            type: "string",
+            description: "Only loans to this person",
+          },
+          overdueOnly: {
+            type: "boolean",
+            description: "Only items past their due date",
+          },
+          instance: instanceProperty,
+        },
+      },
+      async execute(
+        _id,
+        params: { borrower?: string; overdueOnly?: boolean; instance?: string }
+      ) {
+        try {
+          const client = getClient(params.instance);
+          const locationTree = await client.getLocationHierarchy();
+          const ledgerLoans = await getLoanLedger(params.instance).loans();
+          const open = new Map(
+            ledgerLoans.filter((loan) => !loan.returnedAt).map((loan) => [loan.itemId, loan])
+          );
+
+          // Whatever sits in "On loan", plus ledger loans in case an item was moved by hand
+          const match = locationTree.resolve(ON_LOAN_LOCATION);
+          const candidateIds = new Set(open.keys());
+          if (match.status === "found") {
+            const { items } = await client.findItems({
+              locationIds: [match.id],
+              archived: "include",
+            });
+            for (const item of items) candidateIds.add(item.id!);
+          }
+          // Loan details are custom fields, which only full item details carry
+          const details = await mapWithConcurrency([...candidateIds], 4, (id) =>
+            client.getItem(id).catch(() => null)
+          );
+
+          const borrower = params.borrower?.trim().toLowerCase();
+          const loans = details
+            .flatMap((item) => {
+              const loan = item ? itemLoan(item) : undefined;
+              return item && loan ? [{ item, loan, overdue: daysOverdue(loan) }] : [];
+            })
+            .filter(({ loan }) => !borrower || loan.borrower.toLowerCase().includes(borrower))
+            .filter(({ overdue }) => !params.overdueOnly || (overdue ?? 0) > 0)
+            .sort(
+              (a, b) =>
+                (b.overdue ?? -Infinity) - (a.overdue ?? -Infinity) ||
+                a.item.name.localeCompare(b.item.name)
+            );
+
+          if (loans.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: params.overdueOnly ? "Nothing is overdue" : "Nothing is out on loan",
+                },
+              ],
+              payload: { items: [], data: { loans: [], overdue: 0 } },
+            };
+          }
+
+          const overdueCount = loans.filter(({ overdue }) => (overdue ?? 0) > 0).length;
+          const lines = loans.map(({ item, loan, overdue }) => {
+            const due = !loan.dueOn
+              ? "no due date"
+              : (overdue ?? 0) > 0
+                ? `due ${loan.dueOn}, ${overdue} ${overdue === 1 ? "day" : "days"} OVERDUE`
+                : overdue === 0
+                  ? "due today"
+                  : `due ${loan.dueOn} (in ${-overdue!} days)`;
+            const note = open.get(item.id!)?.note;
+            return `${(overdue ?? 0) > 0 ? "⚠" : "•"} ${item.name} (ID: ${item.id}): ${loan.borrower} since ${loan.loanedOn || "?"}, ${due}; returns to ${loan.fromLocationPath || "?"}${note ? ` (${note})` : ""}`;
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `On loan (${loans.length} ${loans.length === 1 ? "item" : "items"}${overdueCount > 0 ? `, ${overdueCount} overdue` : ""}):\n${lines.join("\n")}`,
+              },
+            ],
+            payload: {
+              items: loans.map(({ item }) => itemPayload(locationTree, item)),
+              data: {
+                loans: loans.map(({ item, loan, overdue }) => ({
+                  ...loan,
+                  note: open.get(item.id!)?.note,
+                  overdue: (overdue ?? 0) > 0,
+                  daysOverdue: overdue !== undefined && overdue > 0 ? overdue : undefined,
+                })),
+                overdue: overdueCount,
+              },
+            },
+          };
+        } catch (error) {
+          return toolError("build loan report", error);
+        }
+      },
+    });
+
+    // Tool 30: Print QR code labels for locations and items
+    registerTool({
+      name: "homebox_generate_labels",
+      description:
+        "Make a printable sheet of QR code labels for locations and/or items (name, location path and ID next to each code), as SVG or PDF, generated offline. Optionally gives items without one a HomeBox asset ID and prints it",
+      parameters: {
+        type: "object",
+        properties: {
+          locations: {
+            type: "array",
+            items: { type: "string" },
+            description: "Locations to label: IDs, names, or paths (e.g., 'Garage/Shelf 3')",
+          },
+          includeSubLocations: {
+            type: "boolean",
+            description: "Also label every location nested inside the given locations",
+          },
+          itemIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "Items to label",
+          },
+          itemsIn: {
+            type: "string",
+            description: "Label every item in this location and the locations nested in it",
+          },
+          outputPath: {
+            type: "string",
+            description:
+              "File to write, ending in .pdf or .svg. An SVG holds one sheet; further sheets go to name-2.svg, name-3.svg, ...",
+          },
+          layout: {
+            type: "string",
+            enum: Object.keys(LABEL_LAYOUTS),
+            description: `Label stock (default: ${DEFAULT_LABEL_LAYOUT}): ${Object.entries(LABEL_LAYOUTS)
+              .map(([name, layout]) => `'${name}' ${layout.description}`)
+              .join("; ")}`,
+          },
+          link: {
+            type: "string",
+            enum: ["homebox", "hoard"],
+            description:
+              "What the QR codes encode: 'homebox' (default) the item or location page in HomeBox, which a phone opens directly; 'hoard' a stable hoard://<instance>/<item|location>/<id> URI that doesn't change if HomeBox moves",
+          },
+          skip: {
+            type: "number",
+            description:
+              "Leave this many labels empty at the start of the first sheet (for a partly used sheet)",
+          },
+          assignAssetIds: {
+            type: "boolean",
+            description:
+              "Give items without a HomeBox asset ID the next free one (saved on the item) and print it on the label",
+          },
+          instance: instanceProperty,
+        },
+        required: ["outputPath"],
+      },
+      async execute(
+        callId,
+        params: {
+          locations?: string[];
+          includeSubLocations?: boolean;
+          itemIds?: string[];
+          itemsIn?: string;
+          outputPath: string;
+          layout?: string;
+          link?: "homebox" | "hoard";
+          skip?: number;
+          assignAssetIds?: boolean;
+          instance?: string;
+        }
+      ) {
+        try {
+          if (!params.locations?.length && !params.itemIds?.length && !params.itemsIn) {
+            throw new Error("Pass locations, itemIds or itemsIn");
+          }
+          const layoutName = params.layout ?? DEFAULT_LABEL_LAYOUT;
+          const layout = LABEL_LAYOUTS[layoutName];
+          if (!layout) {
+            throw new Error(
+              `Unknown layout "${layoutName}"; use one of ${Object.keys(LABEL_LAYOUTS).join(", ")}`
+            );
+          }
+          const outputPath = resolve(params.outputPath);
+          const fileFormat = extname(outputPath).slice(1).toLowerCase();
+          if (fileFormat !== "svg" && fileFormat !== "pdf") {
+            throw new Error(`outputPath must end in .pdf or .svg, got ${outputPath}`);
+          }
+          const skip = Math.max(Math.floor(params.skip ?? 0), 0);
+
+          const client = getClient(params.instance);
+          const instanceName = getInstance(params.instance).name;
+          const locationTree = await client.getLocationHierarchy();
+
+          const locationIds: string[] = [];
+          for (const reference of params.locations ?? []) {
+            const { id } = await client.resolveLocation(reference);
+            const ids = params.includeSubLocations ? [id, ...locationTree.descendantIds(id)] : [id];
+            for (const locationId of ids) {
+              if (!locationIds.includes(locationId)) locationIds.push(locationId);
+            }
+          }
+          locationIds.sort((a, b) => locationTree.path(a)!.localeCompare(locationTree.path(b)!));
+
+          // Full records: summaries don't carry asset IDs
+          const itemIds = new Set(params.itemIds ?? []);
+          if (params.itemsIn) {
+            const { items } = await client.findItems({
+              locationIds: [(await client.resolveLocation(params.itemsIn)).id],
+              includeSubLocations: true,
+            });
+            for (const item of items) itemIds.add(item.id!);
+          }
+          let items = await mapWithConcurrency([...itemIds], 4, (id) => client.getItem(id));
+          items.sort(
+            (a, b) =>
+              itemLocationPath(locationTree, a).localeCompare(itemLocationPath(locationTree, b)) ||
+              a.name.localeCompare(b.name)
+          );
+
+          const assigned: { itemId: string; name: string; assetId: string }[] = [];
+          const missing = items.filter((item) => parseAssetId(item.assetId) === 0);
+          let warning = "";
+          if (params.assignAssetIds && missing.length > 0) {
+            let next = (await highestAssetId(client)) + 1;
+            const changes: JournalChange[] = [];
+            const stamped = new Map<string, HomeBoxItem>();
+            try {
+              for (const item of missing) {
+                const assetId = formatAssetId(next++);
+                const updated = await client.updateItem(item.id!, { assetId });
+                builtSearchIndex(params.instance)?.upsert(updated);
+                stamped.set(item.id!, updated);
+                assigned.push({ itemId: item.id!, name: item.name, assetId });
+                changes.push({
+                  operation: "item.update",
+                  target: { type: "item", id: item.id!, name: item.name },
+                  before: item,
+                  after: updated,
+                });
+              }
+            } finally {
+              // Journal the IDs already assigned, even if a later update failed
+              if (changes.length > 0) {
+                warning = await record(params.instance, "homebox_generate_labels", callId, changes);
+              }
+            }
+            items = items.map((item) => stamped.get(item.id!) ?? item);
+          }
+
+          const link = (type: "item" | "location", id: string) =>
+            params.link === "hoard"
+              ? hoardUri(instanceName, type, id)
+              : type === "item"
+                ? client.itemUrl(id)
+                : client.locationUrl(id);
+          const labels: Label[] = [
+            ...locationIds.map((id) => ({
+              data: link("location", id),
+              title: locationTree.name(id) ?? id,
+              subtitle: locationTree.path(locationTree.parentId(id)),
+              footer: `Location ${id.slice(0, 8)}`,
+            })),
+            ...items.map((item) => ({
+              data: link("item", item.id!),
+              title: item.name,
+              subtitle: itemLocationPath(locationTree, item),
+              footer: parseAssetId(item.assetId)
+                ? `Asset ${formatAssetId(parseAssetId(item.assetId))}`
+                : `Item ${item.id!.slice(0, 8)}`,
+            })),
+          ];
+          if (labels.length === 0) {
+            throw new Error("Nothing to label: no matching locations or items");
+          }
+
+          const files: string[] = [];
+          if (fileFormat === "pdf") {
+            await writeTextFile(outputPath, renderLabelsPdf(labels, layout, skip));
+            files.push(outputPath);
+          } else {
+            const sheets = renderLabelsSvg(labels, layout, skip);
+            for (const [index, sheet] of sheets.entries()) {
+              const path =
+                index === 0 ? outputPath : outputPath.replace(/(\.svg)$/i, `-${index + 1}$1`);
+              await writeTextFile(path, sheet);
+              files.push(path);
+            }
+          }
+          const perSheet = layout.columns * layout.rows;
+          const sheets = Math.ceil((labels.length + skip) / perSheet);
+
+          let text = `✓ Wrote ${labels.length} ${labels.length === 1 ? "label" : "labels"} (${locationIds.length} locations, ${items.length} items) on ${sheets} ${layoutName} ${sheets === 1 ? "sheet" : "sheets"}:\n${files.map((file) => `• ${file}`).join("\n")}`;
+          if (assigned.length > 0) {
+            text += `\nAssigned asset IDs:\n${assigned.map((entry) => `• ${entry.name}: ${entry.assetId}`).join("\n")}`;
+          } else if (missing.length > 0 && !params.assignAssetIds) {
+            text += `\n${missing.length} items have no asset ID; pass assignAssetIds: true to give them one`;
+          }
+          text += warning;
+          return {
+            content: [{ type: "text", text }],
+            payload: {
+              items: items.map((item) => itemPayload(locationTree, item)),
+              locations: locationIds.map((id) => locationPayload(locationTree, id)),
+              data: {
+                layout: layoutName,
+                files,
+                labels: labels.length,
+                sheets,
+                assignedAssetIds: assigned,
+              },
+            },
+          };
+        } catch (error) {
+          return toolError("generate labels", error);
+        }
+      },
+    });
+
+    for (const name of allowedTools ?? []) {
+      if (!registeredTools.has(name) && !(readOnly && MUTATING_TOOLS.has(name))) {
+        api.logger?.warn(`hoard: allowedTools lists unknown tool "${name}"`);
+      }
+    }
   },
 };
 
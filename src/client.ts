@@ -4,10 +4,47 @@
  * Handles authentication and API calls to HomeBox
  */
 
+import { componentSearchTerms } from "./components.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import {
+  HomeBoxApiError,
+  LabelResolutionError,
+  LocationCreationError,
+  LocationResolutionError,
+} from "./errors.js";
+import { LocationTree, splitLocationPath } from "./locations.js";
+import {
+  compareItems,
+  hasDetailFilters,
+  matchesDetailFilters,
+  matchesSummaryFilters,
+  needsClientPass,
+  toServerFilters,
+  type ItemFilters,
+} from "./filters.js";
+
+export {
+  HomeBoxApiError,
+  LabelResolutionError,
+  LocationCreationError,
+  LocationResolutionError,
+} from "./errors.js";
+export { LocationTree } from "./locations.js";
+export { matchesAllFilters, type ItemFilters, type ItemSortField } from "./filters.js";
+
 export interface HomeBoxConfig {
   baseUrl: string;
-  username: string;
-  password: string;
+  /** Logged in with to get a session token (unless `token` is given) */
+  username?: string;
+  password?: string;
+  /** Long-lived API token, sent as-is instead of logging in */
+  token?: string;
+  /** Per-request timeout in milliseconds (default: 15000) */
+  timeoutMs?: number;
+  /** Retries for idempotent requests on network errors and 5xx (default: 2) */
+  maxRetries?: number;
+  /** How long the location tree is cached, in milliseconds (default: 30000) */
+  locationCacheTtlMs?: number;
 }
 
 export interface HomeBoxItem {
@@ -29,8 +66,168 @@ export interface HomeBoxItem {
   purchaseTime?: string;
   purchaseFrom?: string;
   purchasePrice?: number;
+  /** HomeBox's own asset number, formatted "000-042" */
+  assetId?: string;
   tagIds?: string[];
   parentId?: string;
+  labels?: { id: string; name: string }[];
+  parent?: { id: string; name: string };
+  attachments?: HomeBoxAttachment[];
+  fields?: HomeBoxCustomField[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface HomeBoxAttachment {
+  id: string;
+  type?: string;
+  primary?: boolean;
+  document?: { id: string; title: string };
+}
+
+/**
+ * User-defined field on an item ("Min Quantity", "Expires", ...). Only the
+ * value matching `type` is meaningful.
+ */
+export interface HomeBoxCustomField {
+  id?: string;
+  name: string;
+  type: "text" | "number" | "boolean" | "time";
+  textValue?: string;
+  numberValue?: number;
+  booleanValue?: boolean;
+  timeValue?: string;
+}
+
+/**
+ * Fields that can be changed on an existing item. Anything not listed here
+ * (id, nested location/labels objects, attachments) is read-only via PUT.
+ */
+export const UPDATABLE_ITEM_FIELDS = [
+  "name",
+  "description",
+  "quantity",
+  "locationId",
+  "notes",
+  "serialNumber",
+  "modelNumber",
+  "manufacturer",
+  "insured",
+  "archived",
+  "lifetimeWarranty",
+  "warrantyExpires",
+  "warrantyDetails",
+  "purchaseTime",
+  "purchaseFrom",
+  "purchasePrice",
+  "assetId",
+  "tagIds",
+  "parentId",
+] as const;
+
+export type UpdatableItemField = (typeof UPDATABLE_ITEM_FIELDS)[number];
+
+export type HomeBoxItemPatch = Partial<Pick<HomeBoxItem, UpdatableItemField>> & {
+  /** Replaces the item's whole custom field list */
+  fields?: HomeBoxCustomField[];
+};
+
+export interface ItemFieldChange {
+  field: UpdatableItemField;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Read an updatable field from an item as returned by the API. GET responses
+ * carry nested `location`/`labels`/`parent` objects rather than the flat IDs
+ * the PUT endpoint expects, so fall back to those.
+ */
+export function getItemField(item: HomeBoxItem, field: UpdatableItemField): unknown {
+  switch (field) {
+    case "locationId":
+      return item.locationId ?? item.location?.id;
+    case "tagIds":
+      return item.tagIds ?? item.labels?.map((label) => label.id);
+    case "parentId":
+      return item.parentId ?? item.parent?.id;
+    default:
+      return item[field];
+  }
+}
+
+/**
+ * Set one field on an item or patch, keeping the value's type tied to its key
+ */
+export function setItemField<K extends keyof HomeBoxItem>(
+  item: Partial<HomeBoxItem>,
+  field: K,
+  value: HomeBoxItem[K]
+): void {
+  item[field] = value;
+}
+
+/**
+ * Compare two versions of an item and list the updatable fields that differ
+ */
+export function diffItems(before: HomeBoxItem, after: HomeBoxItem): ItemFieldChange[] {
+  const changes: ItemFieldChange[] = [];
+  for (const field of UPDATABLE_ITEM_FIELDS) {
+    const oldValue = getItemField(before, field);
+    const newValue = getItemField(after, field);
+    if (JSON.stringify(oldValue ?? null) !== JSON.stringify(newValue ?? null)) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  }
+  return changes;
+}
+
+export interface QuantityAdjustment {
+  item: HomeBoxItem;
+  previousQuantity: number;
+  newQuantity: number;
+}
+
+export interface ItemUpdate {
+  /** The item as read just before the update */
+  before: HomeBoxItem;
+  item: HomeBoxItem;
+}
+
+export interface PageOptions {
+  /** Number of matching items to skip */
+  offset?: number;
+  /** Maximum number of items to return (default: all) */
+  limit?: number;
+}
+
+export interface ItemPage {
+  items: HomeBoxItem[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export interface ItemSearchResult {
+  items: HomeBoxItem[];
+  /**
+   * Total number of matches on the server, regardless of offset/limit.
+   * Undefined when the server doesn't report one and paging stopped at the
+   * limit, so there may be more.
+   */
+  total?: number;
+  /**
+   * True when detail filters stopped being checked once the requested page
+   * was full; `total` is then unknown
+   */
+  truncated?: boolean;
+}
+
+export interface HomeBoxLabel {
+  id: string;
+  name: string;
+  description?: string;
+  color?: string;
 }
 
 export interface HomeBoxLocation {
@@ -38,6 +235,35 @@ export interface HomeBoxLocation {
   name: string;
   description?: string;
   itemCount?: number;
+  /** Only present on single-location responses */
+  parent?: { id: string; name: string };
+  children?: { id: string; name: string }[];
+}
+
+// Log in again this long before the session's reported expiry
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export const DEFAULT_TIMEOUT_MS = 15_000;
+export const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 250;
+
+const ITEMS_PAGE_SIZE = 100;
+export const DEFAULT_LOCATION_CACHE_TTL_MS = 30_000;
+// Upper bound on parallel per-item detail fetches
+const DETAIL_FETCH_CONCURRENCY = 5;
+
+// Methods that can safely be sent again after an ambiguous failure
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface HomeBoxLocationTreeNode {
+  id: string;
+  name: string;
+  type?: string;
+  children: HomeBoxLocationTreeNode[];
 }
 
 interface LoginResponse {
@@ -48,6 +274,13 @@ interface LoginResponse {
 export class HomeBoxClient {
   private config: HomeBoxConfig;
   private token: string | null = null;
+  private tokenExpiresAt: number | null = null;
+  private loginPromise: Promise<string> | null = null;
+  // Tail of the pending read-modify-write chain for each item ID
+  private itemLocks = new Map<string, Promise<unknown>>();
+  // Tail of the pending chain of location creations by resolveLocation
+  private locationCreation: Promise<unknown> = Promise.resolve();
+  private locationTreeCache: { tree: LocationTree; fetchedAt: number } | null = null;
 
   constructor(config: HomeBoxConfig) {
     // Validate URL scheme for security
@@ -57,90 +290,540 @@ export class HomeBoxClient {
         "HomeBox baseUrl must use http:// or https:// scheme"
       );
     }
+    if (!config.token && !(config.username && config.password)) {
+      throw new Error("HomeBox client needs either a token or a username and password");
+    }
     this.config = config;
+    if (config.token) this.token = config.token.replace(/^Bearer\s+/i, "");
   }
 
   private async ensureToken(): Promise<string> {
-    if (this.token) return this.token;
-
-    const response = await fetch(
-      `${this.config.baseUrl}/api/v1/users/login`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          username: this.config.username,
-          password: this.config.password,
-        }),
-      }
-    );
+    if (this.token && !this.tokenNeedsRefresh()) return this.token;
+
+    // Share one in-flight login between concurrent callers
+    if (!this.loginPromise) {
+      this.loginPromise = this.login().finally(() => {
+        this.loginPromise = null;
+      });
+    }
+    return this.loginPromise;
+  }
+
+  private tokenNeedsRefresh(): boolean {
+    if (this.tokenExpiresAt === null) return false;
+    return Date.now() >= this.tokenExpiresAt - TOKEN_REFRESH_MARGIN_MS;
+  }
+
+  private async login(): Promise<string> {
+    const endpoint = "/api/v1/users/login";
+    const response = await this.send(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        username: this.config.username,
+        password: this.config.password,
+      }),
+    });
 
     if (!response.ok) {
-      throw new Error(`HomeBox login failed: ${response.statusText}`);
+      throw await HomeBoxApiError.fromResponse(response, "POST", endpoint, "HomeBox login failed");
     }
 
     const data = (await response.json()) as LoginResponse;
     // Strip "Bearer " prefix if present
     this.token = data.token.replace(/^Bearer\s+/i, "");
 
+    // Unknown or unparseable expiry: keep the token until a 401 says otherwise
+    const expiresAt = Date.parse(data.expiresAt);
+    this.tokenExpiresAt = Number.isNaN(expiresAt) ? null : expiresAt;
+
     return this.token;
   }
 
+  /**
+   * A single fetch() bounded by the configured timeout. Network failures and
+   * timeouts surface as HomeBoxApiError without a status.
+   */
+  private async send(
+    endpoint: string,
+    init: { method: string; headers: Record<string, string>; body?: RequestInit["body"] }
+  ): Promise<Response> {
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await fetch(`${this.config.baseUrl}${endpoint}`, {
+        ...init,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw HomeBoxApiError.fromNetworkError(error, init.method, endpoint, timeoutMs);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * send() with a bearer token. On a 401 the cached token is dropped, a fresh
+   * login is performed and the call is retried once. A configured API token
+   * can't be renewed, so its 401 is returned as-is.
+   */
+  private async fetchWithAuth(
+    endpoint: string,
+    init: { method: string; headers: Record<string, string>; body?: RequestInit["body"] }
+  ): Promise<Response> {
+    const sendWithToken = (token: string) =>
+      this.send(endpoint, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${token}` },
+      });
+
+    const token = await this.ensureToken();
+    const response = await sendWithToken(token);
+    if (response.status !== 401 || this.config.token) return response;
+
+    // Only clear the token if nobody has replaced it since this call started
+    if (this.token === token) {
+      this.token = null;
+      this.tokenExpiresAt = null;
+    }
+    return sendWithToken(await this.ensureToken());
+  }
+
+  /**
+   * JSON API call. Idempotent methods are retried with exponential backoff on
+   * network errors, timeouts and 5xx responses; POSTs are sent exactly once.
+   */
   private async request<T>(
     endpoint: string,
     method: string = "GET",
     body?: unknown
   ): Promise<T> {
-    const token = await this.ensureToken();
-    const url = `${this.config.baseUrl}${endpoint}`;
+    const maxRetries = IDEMPOTENT_METHODS.has(method)
+      ? this.config.maxRetries ?? DEFAULT_MAX_RETRIES
+      : 0;
 
-    const response = await fetch(url, {
-      method,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.fetchWithAuth(endpoint, {
+          method,
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        });
 
-    if (!response.ok) {
-      throw new Error(
-        `HomeBox API error ${response.status}: ${response.statusText}`
-      );
+        if (!response.ok) {
+          throw await HomeBoxApiError.fromResponse(response, method, endpoint);
+        }
+
+        if (response.status === 204) {
+          return {} as T;
+        }
+
+        return (await response.json()) as T;
+      } catch (error) {
+        if (!(error instanceof HomeBoxApiError) || !error.isTransient || attempt >= maxRetries) {
+          throw error;
+        }
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        await sleep(delay + Math.random() * delay);
+      }
+    }
+  }
+
+  /**
+   * Fetch one page of the items endpoint. `filters` become query parameters;
+   * array values are repeated (e.g. `locations=a&locations=b`).
+   */
+  async getItemsPage(
+    filters: Record<string, string | string[] | undefined>,
+    page: number,
+    pageSize: number = ITEMS_PAGE_SIZE
+  ): Promise<ItemPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value === undefined) continue;
+      for (const entry of Array.isArray(value) ? value : [value]) params.append(key, entry);
+    }
+    params.set("page", String(page));
+    params.set("pageSize", String(pageSize));
+
+    const response = await this.request<Partial<ItemPage>>(`/api/v1/items?${params}`);
+    const items = response.items || [];
+    return {
+      items,
+      page: response.page ?? page,
+      pageSize: response.pageSize ?? pageSize,
+      // Older servers omit the total; treat a short page as the last one
+      total:
+        response.total ??
+        (items.length < pageSize ? (page - 1) * pageSize + items.length : Number.MAX_SAFE_INTEGER),
+    };
+  }
+
+  /**
+   * Collect the items in [offset, offset + limit) across as many pages as
+   * needed. Without a limit every matching item is read.
+   */
+  private async queryItems(
+    filters: Record<string, string | string[] | undefined>,
+    options: PageOptions = {}
+  ): Promise<ItemSearchResult> {
+    const offset = Math.max(options.offset ?? 0, 0);
+    const end = options.limit !== undefined ? offset + Math.max(options.limit, 0) : Infinity;
+    const items: HomeBoxItem[] = [];
+
+    let page = Math.floor(offset / ITEMS_PAGE_SIZE) + 1;
+    let position = (page - 1) * ITEMS_PAGE_SIZE;
+    let total = 0;
+
+    while (position < end) {
+      const result = await this.getItemsPage(filters, page);
+      total = result.total;
+      for (const item of result.items) {
+        if (position >= offset && position < end) items.push(item);
+        position++;
+      }
+      if (result.items.length < ITEMS_PAGE_SIZE || position >= total) break;
+      page++;
+    }
+
+    return { items, total: total === Number.MAX_SAFE_INTEGER ? undefined : total };
+  }
+
+  async searchItems(query: string, options?: PageOptions): Promise<ItemSearchResult> {
+    return this.queryItems({ search: query }, options);
+  }
+
+  async searchItemsExtended(query: string, options?: PageOptions): Promise<ItemSearchResult> {
+    return this.findItems({ query }, options);
+  }
+
+  /**
+   * Search with structured filters, returning full item details. Filters the
+   * server can't apply force a read of every server-side match, which is
+   * then filtered, sorted and paged locally. Detail filters fetch full
+   * records only until `offset + limit` items have passed them.
+   */
+  async findItems(filters: ItemFilters, options: PageOptions = {}): Promise<ItemSearchResult> {
+    let locationIds = filters.locationIds;
+    if (locationIds?.length && filters.includeSubLocations) {
+      locationIds = await this.expandLocationIds(locationIds);
+    }
+    const serverFilters = toServerFilters(filters, locationIds);
+
+    if (!needsClientPass(filters)) {
+      const results = await this.queryItems(serverFilters, options);
+      return { items: await this.getItemDetails(results.items), total: results.total };
+    }
+
+    const summaries = await this.queryCandidates(filters, serverFilters);
+    const candidates = summaries.filter((item) => matchesSummaryFilters(item, filters));
+    // Sort fields are all in the summaries, so sort before fetching details
+    if (filters.sortBy || filters.sortOrder) {
+      candidates.sort(compareItems(filters.sortBy ?? "name", filters.sortOrder));
+    }
+
+    const offset = Math.max(options.offset ?? 0, 0);
+    const end = options.limit !== undefined ? offset + Math.max(options.limit, 0) : undefined;
+    if (!hasDetailFilters(filters)) {
+      return {
+        items: await this.getItemDetails(candidates.slice(offset, end)),
+        total: candidates.length,
+      };
     }
 
-    if (response.status === 204) {
-      return {} as T;
+    const matched: HomeBoxItem[] = [];
+    let checked = 0;
+    while (checked < candidates.length && (end === undefined || matched.length < end)) {
+      const batch = candidates.slice(checked, checked + DETAIL_FETCH_CONCURRENCY);
+      checked += batch.length;
+      for (const item of await this.getItemDetails(batch)) {
+        if (matchesDetailFilters(item, filters)) matched.push(item);
+      }
     }
 
-    return (await response.json()) as T;
+    const truncated = checked < candidates.length;
+    return {
+      items: matched.slice(offset, end),
+      total: truncated ? undefined : matched.length,
+      truncated,
+    };
   }
 
-  async searchItems(query: string): Promise<HomeBoxItem[]> {
-    const response = await this.request<{ items: HomeBoxItem[] }>(
-      `/api/v1/items?search=${encodeURIComponent(query)}`
+  /**
+   * Server-side matches to filter locally. Component values with no other
+   * search text would mean reading every item, so the server is searched
+   * for each usual spelling of one of the values instead.
+   */
+  private async queryCandidates(
+    filters: ItemFilters,
+    serverFilters: Record<string, string | string[] | undefined>
+  ): Promise<HomeBoxItem[]> {
+    const values = filters.componentValues ?? [];
+    // Tolerances ("5%") are too common to narrow anything down
+    const value = values.find((candidate) => candidate.kind !== "tolerance") ?? values[0];
+    if (filters.query || !value) return (await this.queryItems(serverFilters)).items;
+
+    const results = await mapWithConcurrency(
+      componentSearchTerms(value),
+      DETAIL_FETCH_CONCURRENCY,
+      (term) => this.queryItems({ ...serverFilters, search: term })
     );
-    return response.items || [];
+    const byId = new Map<string, HomeBoxItem>();
+    for (const { items } of results) {
+      for (const item of items) if (item.id && !byId.has(item.id)) byId.set(item.id, item);
+    }
+    return [...byId.values()].sort(compareItems("name"));
   }
 
-  async searchItemsExtended(query: string): Promise<HomeBoxItem[]> {
-    // Get basic search results first
-    const results = await this.searchItems(query);
+  /**
+   * Read every item on the server, page by page. Search summaries omit
+   * notes, manufacturer, model/serial numbers and purchase details; pass
+   * `details: true` to fetch full records (one request per item).
+   */
+  async getAllItems(
+    options: { details?: boolean; includeArchived?: boolean } = {}
+  ): Promise<HomeBoxItem[]> {
+    const { items } = await this.queryItems({
+      includeArchived: options.includeArchived ? "true" : undefined,
+    });
+    return options.details ? this.getItemDetails(items) : items;
+  }
 
-    // Fetch full details for each item in parallel
-    const fullItems = await Promise.all(
-      results.map(item =>
-        item.id ? this.request<HomeBoxItem>(`/api/v1/items/${item.id}`) : Promise.resolve(item)
-      )
+  /** Fetch full details for each item, a few at a time */
+  async getItemDetails(items: HomeBoxItem[]): Promise<HomeBoxItem[]> {
+    return mapWithConcurrency(items, DETAIL_FETCH_CONCURRENCY, (item) =>
+      item.id ? this.getItem(item.id) : Promise.resolve(item)
     );
+  }
+
+  /**
+   * The given location IDs plus every location nested beneath them
+   */
+  async expandLocationIds(locationIds: string[]): Promise<string[]> {
+    const tree = await this.getLocationHierarchy();
+    const result = new Set(locationIds);
+    for (const id of locationIds) {
+      tree.descendantIds(id).forEach((descendant) => result.add(descendant));
+    }
+    return [...result];
+  }
+
+  async getLocationItems(locationId: string, query?: string): Promise<HomeBoxItem[]> {
+    const result = await this.queryItems({ locations: locationId, search: query || undefined });
+    return result.items;
+  }
 
-    return fullItems;
+  async getItem(itemId: string): Promise<HomeBoxItem> {
+    return this.request<HomeBoxItem>(`/api/v1/items/${itemId}`);
+  }
+
+  /** Link to an item's page in the HomeBox web UI */
+  itemUrl(itemId: string): string {
+    return `${this.config.baseUrl.replace(/\/+$/, "")}/item/${itemId}`;
+  }
+
+  /** Link to a location's page in the HomeBox web UI */
+  locationUrl(locationId: string): string {
+    return `${this.config.baseUrl.replace(/\/+$/, "")}/location/${locationId}`;
+  }
+
+  /** Direct link to an attachment (needs a logged-in HomeBox session to open) */
+  attachmentUrl(itemId: string, attachmentId: string): string {
+    return `${this.config.baseUrl.replace(/\/+$/, "")}/api/v1/items/${itemId}/attachments/${attachmentId}`;
   }
 
   async getLocations(): Promise<HomeBoxLocation[]> {
     return this.request<HomeBoxLocation[]>("/api/v1/locations");
   }
 
+  async getLocation(locationId: string): Promise<HomeBoxLocation> {
+    return this.request<HomeBoxLocation>(`/api/v1/locations/${locationId}`);
+  }
+
+  async getLocationTree(): Promise<HomeBoxLocationTreeNode[]> {
+    return this.request<HomeBoxLocationTreeNode[]>("/api/v1/locations/tree");
+  }
+
+  /**
+   * The location hierarchy with item counts. Cached briefly since most tools
+   * need it just to print paths; location changes made through this client
+   * clear the cache.
+   */
+  async getLocationHierarchy(options: { maxAgeMs?: number } = {}): Promise<LocationTree> {
+    const maxAgeMs =
+      options.maxAgeMs ?? this.config.locationCacheTtlMs ?? DEFAULT_LOCATION_CACHE_TTL_MS;
+    if (this.locationTreeCache && Date.now() - this.locationTreeCache.fetchedAt < maxAgeMs) {
+      return this.locationTreeCache.tree;
+    }
+
+    const [tree, flat] = await Promise.all([this.getLocationTree(), this.getLocations()]);
+    const hierarchy = new LocationTree(tree, flat);
+    this.locationTreeCache = { tree: hierarchy, fetchedAt: Date.now() };
+    return hierarchy;
+  }
+
+  /**
+   * Turn a location ID, name or path ("Garage/Shelf 3") into a location ID.
+   * Throws LocationResolutionError listing the candidates when ambiguous, or
+   * near misses when nothing matches. With `createMissing`, path segments
+   * that don't exist yet are created under the deepest existing ancestor;
+   * near misses are not reused. Creations are serialized, so concurrent
+   * callers asking for the same new path share one copy of it.
+   */
+  async resolveLocation(
+    reference: string,
+    options: { createMissing?: boolean } = {}
+  ): Promise<{ id: string; created: string[] }> {
+    let tree = await this.getLocationHierarchy();
+    let match = tree.resolve(reference);
+    if (match.status === "missing") {
+      // The cached tree may predate a location created elsewhere
+      tree = await this.getLocationHierarchy({ maxAgeMs: 0 });
+      match = tree.resolve(reference);
+    }
+
+    if (match.status === "found") return { id: match.id, created: [] };
+    if (match.status === "ambiguous") {
+      throw new LocationResolutionError(reference, match.ids.map((id) => tree.path(id)!));
+    }
+    if (!options.createMissing) {
+      throw new LocationResolutionError(
+        reference,
+        [],
+        match.suggestions.map((id) => tree.path(id)!)
+      );
+    }
+
+    const run = this.locationCreation
+      .catch(() => undefined)
+      .then(() => this.createLocationPath(reference));
+    this.locationCreation = run;
+    return run;
+  }
+
+  /**
+   * Create whatever part of a location path is missing. Runs one at a time
+   * and re-reads the tree first, since an earlier run may have just created
+   * the same path.
+   */
+  private async createLocationPath(reference: string): Promise<{ id: string; created: string[] }> {
+    const tree = await this.getLocationHierarchy({ maxAgeMs: 0 });
+    const match = tree.resolve(reference);
+    if (match.status === "found") return { id: match.id, created: [] };
+    if (match.status === "ambiguous") {
+      throw new LocationResolutionError(reference, match.ids.map((id) => tree.path(id)!));
+    }
+
+    const segments = splitLocationPath(reference);
+    if (segments.length === 0) throw new LocationResolutionError(reference);
+    let parentId: string | undefined;
+    let start = 0;
+    for (let length = segments.length - 1; length > 0; length--) {
+      const prefix = segments.slice(0, length).join("/");
+      const prefixMatch = tree.resolve(prefix);
+      if (prefixMatch.status === "ambiguous") {
+        throw new LocationResolutionError(prefix, prefixMatch.ids.map((id) => tree.path(id)!));
+      }
+      if (prefixMatch.status === "found") {
+        parentId = prefixMatch.id;
+        start = length;
+        break;
+      }
+    }
+
+    const created: string[] = [];
+    try {
+      for (const name of segments.slice(start)) {
+        const location = await this.createLocation({ name, parentId });
+        parentId = location.id;
+        created.push(location.id);
+      }
+    } catch (error) {
+      throw new LocationCreationError(reference, created, error);
+    }
+    return { id: parentId!, created };
+  }
+
+  async getLabels(): Promise<HomeBoxLabel[]> {
+    return this.request<HomeBoxLabel[]>("/api/v1/labels");
+  }
+
+  async getLabel(labelId: string): Promise<HomeBoxLabel> {
+    return this.request<HomeBoxLabel>(`/api/v1/labels/${labelId}`);
+  }
+
+  async createLabel(label: {
+    name: string;
+    description?: string;
+    color?: string;
+  }): Promise<HomeBoxLabel> {
+    return this.request<HomeBoxLabel>("/api/v1/labels", "POST", label);
+  }
+
+  async updateLabel(
+    labelId: string,
+    updates: { name?: string; description?: string; color?: string }
+  ): Promise<HomeBoxLabel> {
+    // PUT replaces the label, so carry over anything not being changed
+    const current = await this.getLabel(labelId);
+    const payload = {
+      id: labelId,
+      name: updates.name ?? current.name,
+      description: updates.description ?? current.description,
+      color: updates.color ?? current.color,
+    };
+    return this.request<HomeBoxLabel>(`/api/v1/labels/${labelId}`, "PUT", payload);
+  }
+
+  async deleteLabel(labelId: string): Promise<void> {
+    await this.request<void>(`/api/v1/labels/${labelId}`, "DELETE");
+  }
+
+  /**
+   * Map label names (case-insensitive) or IDs to label IDs. Unknown names
+   * throw LabelResolutionError unless `createMissing` is set, in which case
+   * they are created.
+   */
+  async resolveLabels(
+    references: string[],
+    options: { createMissing?: boolean } = {}
+  ): Promise<{ ids: string[]; created: HomeBoxLabel[] }> {
+    const labels = await this.getLabels();
+    const byId = new Map(labels.map((label) => [label.id, label]));
+    const byName = new Map(labels.map((label) => [label.name.trim().toLowerCase(), label]));
+
+    const ids: string[] = [];
+    const missing: string[] = [];
+    for (const reference of references) {
+      const label = byId.get(reference) ?? byName.get(reference.trim().toLowerCase());
+      if (label) ids.push(label.id);
+      else missing.push(reference.trim());
+    }
+
+    if (missing.length > 0 && !options.createMissing) {
+      throw new LabelResolutionError(missing, labels.map((label) => label.name));
+    }
+
+    const created: HomeBoxLabel[] = [];
+    const createdByName = new Map<string, HomeBoxLabel>();
+    for (const name of missing) {
+      const key = name.toLowerCase();
+      let label = createdByName.get(key);
+      if (!label) {
+        label = await this.createLabel({ name });
+        createdByName.set(key, label);
+        created.push(label);
+      }
+      ids.push(label.id);
+    }
+
+    return { ids: [...new Set(ids)], created };
+  }
+
   async createItem(item: HomeBoxItem): Promise<HomeBoxItem> {
     // Step 1: Create item with basic fields (POST only accepts these)
     const createPayload: Record<string, unknown> = {
@@ -200,14 +883,107 @@ export class HomeBoxClient {
     return created;
   }
 
+  /**
+   * Update an item with partial-patch semantics: the current item is fetched,
+   * only the fields present in `patch` are changed, and the full item is PUT
+   * back so that omitted fields (custom fields included) keep their existing
+   * values. The read and write are serialized with other updates and
+   * quantity adjustments to the item.
+   */
+  async updateItem(itemId: string, patch: HomeBoxItemPatch): Promise<HomeBoxItem> {
+    return (await this.modifyItem(itemId, () => patch)).item;
+  }
+
+  /**
+   * Like updateItem, but the patch is built from the item as read under the
+   * item lock, so a change derived from its current state (its custom field
+   * list, whether it is already on loan) can't overwrite a concurrent one.
+   * Throw from `change` to leave the item untouched.
+   */
+  async modifyItem(
+    itemId: string,
+    change: (current: HomeBoxItem) => HomeBoxItemPatch | Promise<HomeBoxItemPatch>
+  ): Promise<ItemUpdate> {
+    return this.withItemLock(itemId, async () => {
+      const before = await this.getItem(itemId);
+      const item = await this.putItem(before, await change(before));
+      return { before, item };
+    });
+  }
+
+  /**
+   * PUT `current` with `patch` applied on top. HomeBox's PUT replaces the
+   * whole item, so every updatable field is sent.
+   */
+  private async putItem(current: HomeBoxItem, patch: HomeBoxItemPatch): Promise<HomeBoxItem> {
+    const itemId = current.id;
+    if (!itemId) {
+      throw new Error("Cannot update an item without an ID");
+    }
+
+    const payload: Record<string, unknown> = { id: itemId };
+    for (const field of UPDATABLE_ITEM_FIELDS) {
+      const value = patch[field] !== undefined ? patch[field] : getItemField(current, field);
+      if (value !== undefined) payload[field] = value;
+    }
+    // Custom fields left out of a PUT are deleted, so always send them back
+    const fields = patch.fields ?? current.fields;
+    if (fields) payload.fields = fields;
+
+    return this.request<HomeBoxItem>(`/api/v1/items/${itemId}`, "PUT", payload);
+  }
+
+  /**
+   * Change an item's quantity by a relative amount. Adjustments to the same
+   * item are serialized and the item is re-read immediately before writing,
+   * so concurrent callers each apply their delta to the latest quantity.
+   */
+  async adjustQuantity(
+    itemId: string,
+    delta: number,
+    options?: { reason?: string; allowNegative?: boolean }
+  ): Promise<QuantityAdjustment> {
+    return this.withItemLock(itemId, async () => {
+      const current = await this.getItem(itemId);
+      const previousQuantity = current.quantity ?? 0;
+      const newQuantity = previousQuantity + delta;
+
+      if (newQuantity < 0 && !options?.allowNegative) {
+        throw new Error(
+          `Adjustment would make quantity negative (${previousQuantity} ${delta < 0 ? "-" : "+"} ${Math.abs(delta)} = ${newQuantity})`
+        );
+      }
+
+      const patch: HomeBoxItemPatch = { quantity: newQuantity };
+      if (options?.reason) {
+        const date = new Date().toISOString().slice(0, 10);
+        const entry = `[${date}] ${delta > 0 ? "+" : ""}${delta}: ${options.reason}`;
+        patch.notes = current.notes ? `${current.notes}\n${entry}` : entry;
+      }
+
+      const item = await this.putItem(current, patch);
+      return { item, previousQuantity, newQuantity };
+    });
+  }
+
+  private async withItemLock<T>(itemId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.itemLocks.get(itemId) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(fn);
+    this.itemLocks.set(itemId, run);
+    try {
+      return await run;
+    } finally {
+      if (this.itemLocks.get(itemId) === run) this.itemLocks.delete(itemId);
+    }
+  }
+
   async attachFile(
     itemId: string,
     fileBuffer: Buffer,
     fileName: string,
     options?: { type?: string; primary?: boolean }
   ): Promise<HomeBoxItem> {
-    const token = await this.ensureToken();
-    const url = `${this.config.baseUrl}/api/v1/items/${itemId}/attachments`;
+    const endpoint = `/api/v1/items/${itemId}/attachments`;
 
     // Build multipart form data manually with proper formatting
     const boundary = "----WebKitFormBoundary" + Math.random().toString(36).substr(2, 16);
@@ -243,22 +1019,41 @@ export class HomeBoxClient {
 
     const body = Buffer.concat(parts);
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithAuth(endpoint, {
       method: "POST",
       headers: {
         "Content-Type": `multipart/form-data; boundary=${boundary}`,
-        Authorization: `Bearer ${token}`,
       },
       body,
     });
 
     if (!response.ok) {
-      throw new Error(`HomeBox API error ${response.status}: ${response.statusText}`);
+      throw await HomeBoxApiError.fromResponse(response, "POST", endpoint);
     }
 
     return (await response.json()) as HomeBoxItem;
   }
 
+  /**
+   * Download an attachment's file contents
+   */
+  async downloadAttachment(
+    itemId: string,
+    attachmentId: string
+  ): Promise<{ buffer: Buffer; contentType?: string }> {
+    const endpoint = `/api/v1/items/${itemId}/attachments/${attachmentId}`;
+    const response = await this.fetchWithAuth(endpoint, { method: "GET", headers: {} });
+
+    if (!response.ok) {
+      throw await HomeBoxApiError.fromResponse(response, "GET", endpoint);
+    }
+
+    return {
+      buffer: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type") ?? undefined,
+    };
+  }
+
   async deleteAttachment(itemId: string, attachmentId: string): Promise<void> {
     await this.request<void>(
       `/api/v1/items/${itemId}/attachments/${attachmentId}`,
@@ -289,7 +1084,9 @@ export class HomeBoxClient {
       parentId?: string;
     }
   ): Promise<HomeBoxLocation> {
-    return this.request<HomeBoxLocation>("/api/v1/locations", "POST", location);
+    const created = await this.request<HomeBoxLocation>("/api/v1/locations", "POST", location);
+    this.locationTreeCache = null;
+    return created;
   }
 
   async updateLocation(
@@ -297,22 +1094,34 @@ export class HomeBoxClient {
     updates: {
       name?: string;
       description?: string;
-      parentId?: string;
+      /** null moves the location to the top level */
+      parentId?: string | null;
     }
   ): Promise<HomeBoxLocation> {
-    const payload: any = { id: locationId };
+    // PUT replaces the location, so carry over anything not being changed
+    // (otherwise renaming a location would also detach it from its parent)
+    const current = await this.getLocation(locationId);
+    const payload: any = {
+      id: locationId,
+      name: current.name,
+      description: current.description,
+      parentId: current.parent?.id,
+    };
     if (updates.name !== undefined) payload.name = updates.name;
     if (updates.description !== undefined) payload.description = updates.description;
     if (updates.parentId !== undefined) payload.parentId = updates.parentId;
 
-    return this.request<HomeBoxLocation>(
+    const updated = await this.request<HomeBoxLocation>(
       `/api/v1/locations/${locationId}`,
       "PUT",
       payload
     );
+    this.locationTreeCache = null;
+    return updated;
   }
 
   async deleteLocation(locationId: string): Promise<void> {
     await this.request<void>(`/api/v1/locations/${locationId}`, "DELETE");
+    this.locationTreeCache = null;
   }
 }
@@ -0,0 +1,281 @@
+/**
+ * Electronic Component Values
+ *
+ * Parses resistance, capacitance, inductance, voltage, tolerance and package
+ * names out of free text so that "10k resistor", "10kΩ", "10 kohm" and
+ * "10000 ohm" all compare equal
+ */
+
+import type { HomeBoxItem } from "./client.js";
+
+export type ComponentValueKind =
+  | "resistance"
+  | "capacitance"
+  | "inductance"
+  | "voltage"
+  | "tolerance"
+  | "package";
+
+export interface ComponentValue {
+  kind: ComponentValueKind;
+  /** Value in base SI units (ohms, farads, henries, volts, percent); NaN for packages */
+  value: number;
+  /** Canonical spelling, e.g. "10kΩ", "100nF", "DIP-8" */
+  canonical: string;
+  /** Text as it appeared in the input */
+  raw: string;
+  start: number;
+  end: number;
+}
+
+const SI_PREFIXES: Record<string, number> = {
+  p: 1e-12,
+  n: 1e-9,
+  u: 1e-6,
+  µ: 1e-6,
+  μ: 1e-6,
+  m: 1e-3,
+  "": 1,
+  k: 1e3,
+  K: 1e3,
+  M: 1e6,
+  meg: 1e6,
+  Meg: 1e6,
+  MEG: 1e6,
+  G: 1e9,
+};
+
+// Prefixes used when printing each kind, largest first
+const DISPLAY_PREFIXES: Record<string, [number, string][]> = {
+  resistance: [[1e9, "G"], [1e6, "M"], [1e3, "k"], [1, ""], [1e-3, "m"]],
+  capacitance: [[1e-6, "µ"], [1e-9, "n"], [1e-12, "p"]],
+  inductance: [[1, ""], [1e-3, "m"], [1e-6, "µ"], [1e-9, "n"]],
+  voltage: [[1e3, "k"], [1, ""], [1e-3, "m"]],
+};
+
+// Alternative spellings of a prefix when searching for text
+const PREFIX_SPELLINGS: Record<string, string[]> = { µ: ["u", "µ", "μ"] };
+
+const UNIT_SYMBOLS: Record<string, string> = {
+  resistance: "Ω",
+  capacitance: "F",
+  inductance: "H",
+  voltage: "V",
+};
+
+const SMD_SIZES = ["0201", "0402", "0603", "0805", "1206", "1210", "1812", "2010", "2512"];
+
+// Words that only restate the kind of a parsed value ("10k resistor")
+const KIND_WORDS: Record<string, RegExp> = {
+  resistance: /\b(resistors?|res|ohms?)\b/gi,
+  capacitance: /\b(capacitors?|caps?)\b/gi,
+  inductance: /\b(inductors?|chokes?)\b/gi,
+};
+
+// A bare "10k" is only a resistance when the text talks about resistors
+const RESISTOR_CONTEXT = /resistor|\bres\b|ohm|Ω|Ω/i;
+
+interface Pattern {
+  kind: ComponentValueKind;
+  regex: RegExp;
+  /** Return [value in base units, canonical] or null to reject the match */
+  parse(match: RegExpExecArray, text: string): [number, string] | null;
+}
+
+function formatValue(kind: string, value: number): string {
+  const prefixes = DISPLAY_PREFIXES[kind];
+  const [multiplier, symbol] =
+    prefixes.find(([multiplier]) => value >= multiplier * (1 - 1e-9)) ??
+    prefixes[prefixes.length - 1];
+  const mantissa = Number((value / multiplier).toPrecision(3));
+  return `${mantissa}${symbol}${UNIT_SYMBOLS[kind]}`;
+}
+
+function scaled(kind: ComponentValueKind, number: string, prefix: string | undefined): [number, string] | null {
+  const multiplier = SI_PREFIXES[prefix ?? ""];
+  if (multiplier === undefined) return null;
+  const value = parseFloat(number) * multiplier;
+  return [value, formatValue(kind, value)];
+}
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+
+// Ordered by priority: earlier patterns claim text before later ones
+const PATTERNS: Pattern[] = [
+  {
+    // RKM notation: 4k7, 4R7, 1M5
+    kind: "resistance",
+    regex: /\b(\d+)([RrKkM])(\d+)\b/g,
+    parse: (m) => {
+      const multiplier = m[2].toUpperCase() === "R" ? 1 : m[2].toUpperCase() === "K" ? 1e3 : 1e6;
+      const value = parseFloat(`${m[1]}.${m[3]}`) * multiplier;
+      return [value, formatValue("resistance", value)];
+    },
+  },
+  {
+    // 10kΩ, 10 kohm, 10000 ohms, 100R
+    kind: "resistance",
+    regex: new RegExp(String.raw`\b${NUMBER}\s*(k|K|M|meg|Meg|MEG|G|m)?\s*(?:Ω|Ω|ohms?\b|Ohms?\b|OHMS?\b|R\b)`, "g"),
+    parse: (m) => scaled("resistance", m[1], m[2]),
+  },
+  {
+    // 100nF, 0.1 uF, 10pf, 470 µF
+    kind: "capacitance",
+    regex: new RegExp(String.raw`\b${NUMBER}\s*(p|n|u|µ|μ|m)?\s*(?:F|f)(?:arads?)?\b`, "g"),
+    parse: (m) => scaled("capacitance", m[1], m[2]),
+  },
+  {
+    // 10uH, 4.7 mH
+    kind: "inductance",
+    regex: new RegExp(String.raw`\b${NUMBER}\s*(n|u|µ|μ|m)?\s*(?:H\b|henry|henries)`, "g"),
+    parse: (m) => scaled("inductance", m[1], m[2]),
+  },
+  {
+    // 16V, 3.3 v, 5 volts, 12VDC
+    kind: "voltage",
+    regex: new RegExp(String.raw`\b${NUMBER}\s*(m|k)?\s*(?:[Vv](?:DC|AC|dc|ac)?\b|volts?\b)`, "g"),
+    parse: (m) => scaled("voltage", m[1], m[2]),
+  },
+  {
+    // ±5%, 1 %
+    kind: "tolerance",
+    regex: new RegExp(String.raw`±?\s*${NUMBER}\s*%`, "g"),
+    parse: (m) => [parseFloat(m[1]), `${parseFloat(m[1])}%`],
+  },
+  {
+    // DIP-8, SOIC8, SOT-23-5, TO-220
+    kind: "package",
+    regex: /\b(P?DIP|SOIC|SOP|SSOP|TSSOP|MSOP|QFN|DFN|QFP|TQFP|LQFP|SOT|TO)[-\s]?(\d{1,3}(?:-\d+)?)\b/gi,
+    parse: (m) => [NaN, `${m[1].toUpperCase()}-${m[2]}`],
+  },
+  {
+    // Imperial SMD sizes: 0805, 1206
+    kind: "package",
+    regex: new RegExp(String.raw`\b(${SMD_SIZES.join("|")})\b`, "g"),
+    parse: (m) => [NaN, m[1]],
+  },
+  {
+    // Bare multiplier in resistor context: "10k resistor", "4.7K"
+    kind: "resistance",
+    regex: new RegExp(String.raw`\b${NUMBER}\s?(k|K|M|meg|Meg)\b`, "g"),
+    parse: (m, text) => (RESISTOR_CONTEXT.test(text) ? scaled("resistance", m[1], m[2]) : null),
+  },
+];
+
+/**
+ * Find every component value in `text`, in order of appearance
+ */
+export function parseComponentValues(text: string | undefined): ComponentValue[] {
+  if (!text) return [];
+  const found: ComponentValue[] = [];
+  const overlaps = (start: number, end: number) =>
+    found.some((value) => start < value.end && end > value.start);
+
+  for (const pattern of PATTERNS) {
+    pattern.regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.regex.exec(text))) {
+      const start = match.index + (match[0].length - match[0].trimStart().length);
+      const raw = match[0].trim();
+      const end = start + raw.length;
+      if (overlaps(start, end)) continue;
+
+      const parsed = pattern.parse(match, text);
+      if (!parsed) continue;
+      found.push({ kind: pattern.kind, value: parsed[0], canonical: parsed[1], raw, start, end });
+    }
+  }
+
+  return found.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Rewrite every recognized value in its canonical spelling, e.g.
+ * "10000 ohm resistor" → "10kΩ resistor"
+ */
+export function normalizeComponentText(text: string): string {
+  let result = "";
+  let position = 0;
+  for (const value of parseComponentValues(text)) {
+    result += text.slice(position, value.start) + value.canonical;
+    position = value.end;
+  }
+  return result + text.slice(position);
+}
+
+/**
+ * Split a search query into the component values it names and the remaining
+ * free text, minus words that only restate a value's kind ("resistor")
+ */
+export function extractComponentValues(query: string): { values: ComponentValue[]; remainder: string } {
+  const values = parseComponentValues(query);
+  let remainder = "";
+  let position = 0;
+  for (const value of values) {
+    remainder += query.slice(position, value.start) + " ";
+    position = value.end;
+  }
+  remainder += query.slice(position);
+
+  for (const kind of new Set(values.map((value) => value.kind))) {
+    const words = KIND_WORDS[kind];
+    if (words) remainder = remainder.replace(words, " ");
+  }
+
+  return { values, remainder: remainder.replace(/\s+/g, " ").trim() };
+}
+
+/**
+ * Substrings that the usual spellings of `value` contain, for narrowing a
+ * server-side text search before values are compared locally: "10k",
+ * "10 k" and "10000" for 10kΩ. Over-matching is fine; missing a spelling
+ * is not.
+ */
+export function componentSearchTerms(value: ComponentValue): string[] {
+  if (value.kind === "package") {
+    const { canonical } = value;
+    return [...new Set([canonical, canonical.replace("-", ""), canonical.replace("-", " ")])];
+  }
+  if (value.kind === "tolerance") return [`${value.value}%`, `${value.value} %`];
+
+  const terms = new Set<string>();
+  const prefixes = [...DISPLAY_PREFIXES[value.kind], [1, ""] as [number, string]];
+  for (const [multiplier, prefix] of prefixes) {
+    const mantissa = Number((value.value / multiplier).toPrecision(6));
+    if (mantissa < 0.1 || mantissa >= 1e7) continue;
+    for (const spelling of PREFIX_SPELLINGS[prefix] ?? [prefix]) {
+      terms.add(`${mantissa}${spelling}`);
+      if (spelling) terms.add(`${mantissa} ${spelling}`);
+    }
+    // RKM notation: 4k7, 4R7
+    const [whole, fraction] = String(mantissa).split(".");
+    if (value.kind === "resistance" && fraction && ["", "k", "M"].includes(prefix)) {
+      terms.add(`${whole}${prefix || "R"}${fraction}`);
+    }
+  }
+  return [...terms];
+}
+
+export function sameComponentValue(a: ComponentValue, b: ComponentValue): boolean {
+  if (a.kind !== b.kind) return false;
+  if (a.kind === "package") return a.canonical === b.canonical;
+  return Math.abs(a.value - b.value) <= 1e-9 * Math.max(Math.abs(a.value), Math.abs(b.value));
+}
+
+/**
+ * Component values mentioned in an item's name or description
+ */
+export function itemComponentValues(item: Pick<HomeBoxItem, "name" | "description">): ComponentValue[] {
+  return [...parseComponentValues(item.name), ...parseComponentValues(item.description)];
+}
+
+/**
+ * True if the item mentions an equivalent of every one of `values`
+ */
+export function itemHasComponentValues(
+  item: Pick<HomeBoxItem, "name" | "description">,
+  values: ComponentValue[]
+): boolean {
+  const itemValues = itemComponentValues(item);
+  return values.every((wanted) => itemValues.some((value) => sameComponentValue(wanted, value)));
+}
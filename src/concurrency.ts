@@ -0,0 +1,30 @@
+/**
+ * Concurrency helpers
+ *
+ * Keeps fan-out against HomeBox bounded so bulk operations don't flood the server
+ */
+
+/**
+ * Map over `items` running at most `limit` calls of `fn` at once. Results are
+ * returned in input order; the first rejection rejects the whole call, like
+ * Promise.all.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
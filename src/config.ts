@@ -0,0 +1,387 @@
+/**
+ * Plugin Configuration
+ *
+ * Turns `plugins.entries.hoard.config`, environment variables and credential
+ * files into one validated settings object. Problems are reported when the
+ * plugin loads, naming the offending field, rather than on the first tool call.
+ *
+ * Credentials for an instance come from the first of these that is set:
+ *   1. token
+ *   2. tokenFile
+ *   3. password (with username)
+ *   4. passwordFile (with username)
+ *   5. HOMEBOX_TOKEN
+ *   6. HOMEBOX_PASSWORD (with username or HOMEBOX_USERNAME)
+ * Environment variables (5, 6 and HOMEBOX_URL) only apply to the top-level
+ * connection, not to entries of an `instances` list.
+ */
+
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import {
+  DEFAULT_LOCATION_CACHE_TTL_MS,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_TIMEOUT_MS,
+} from "./client.js";
+import { ConfigError } from "./errors.js";
+import { DEFAULT_SEARCH_INDEX_TTL_MS } from "./search-index.js";
+import { DEFAULT_DATA_DIR } from "./storage.js";
+
+export const PLUGIN_ID = "hoard";
+export const DEFAULT_BASE_URL = "http://localhost:3100";
+// Used when `instances` isn't configured
+export const DEFAULT_INSTANCE_NAME = "default";
+
+export type HomeBoxCredentials =
+  | { type: "token"; token: string; source: string }
+  | { type: "password"; username: string; password: string; source: string };
+
+export interface InstanceSettings {
+  name: string;
+  baseUrl: string;
+  credentials: HomeBoxCredentials;
+  timeoutMs: number;
+  maxRetries: number;
+  locationCacheTtlMs: number;
+  searchIndexTtlMs: number;
+}
+
+export interface HoardSettings {
+  instances: InstanceSettings[];
+  defaultInstance: string;
+  /** Set when `instances` is configured; each instance then keeps its data in a subdirectory */
+  multiInstance: boolean;
+  dataDir: string;
+  readOnly: boolean;
+  /** Only these tools are registered; null for all */
+  allowedTools: string[] | null;
+}
+
+// Settings shared by the top level and each `instances` entry
+const CONNECTION_PROPERTIES = {
+  baseUrl: {
+    type: "string",
+    description: "HomeBox server URL",
+    default: DEFAULT_BASE_URL,
+  },
+  username: {
+    type: "string",
+    description: "HomeBox username (with password or passwordFile)",
+  },
+  password: {
+    type: "string",
+    description: "HomeBox password",
+  },
+  passwordFile: {
+    type: "string",
+    description: "File containing the HomeBox password",
+  },
+  token: {
+    type: "string",
+    description: "Long-lived HomeBox API token, used instead of a username and password",
+  },
+  tokenFile: {
+    type: "string",
+    description: "File containing a HomeBox API token",
+  },
+  timeoutMs: {
+    type: "number",
+    description: "Per-request timeout in milliseconds",
+    default: DEFAULT_TIMEOUT_MS,
+  },
+  maxRetries: {
+    type: "number",
+    description: "Retries for read/update requests on network errors and 5xx responses",
+    default: DEFAULT_MAX_RETRIES,
+  },
+  locationCacheTtlMs: {
+    type: "number",
+    description: "How long the location tree is cached, in milliseconds",
+    default: DEFAULT_LOCATION_CACHE_TTL_MS,
+  },
+  searchIndexTtlMs: {
+    type: "number",
+    description: "How long the fuzzy search index is used before it re-syncs, in milliseconds",
+    default: DEFAULT_SEARCH_INDEX_TTL_MS,
+  },
+};
+
+/** JSON schema of the plugin config; mirrored by configSchema in openclaw.plugin.json */
+export const CONFIG_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    ...CONNECTION_PROPERTIES,
+    instances: {
+      type: "array",
+      description:
+        "Several HomeBox servers, each with a name, connection settings and optionally default: true. Replaces the top-level connection settings",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          name: { type: "string", description: "Name used in the instance tool parameter" },
+          ...CONNECTION_PROPERTIES,
+          default: {
+            type: "boolean",
+            description: "Use this instance when a tool call doesn't name one",
+          },
+        },
+        required: ["name"],
+      },
+    },
+    dataDir: {
+      type: "string",
+      description: "Directory for plugin-local data: label stock thresholds, import manifests, the loan ledger and the audit journal",
+      default: "~/.openclaw/hoard",
+    },
+    readOnly: {
+      type: "boolean",
+      description: "Only register tools that read inventory; every tool that changes data is left out",
+      default: false,
+    },
+    allowedTools: {
+      type: "array",
+      items: { type: "string" },
+      description: "If set, only these tools are registered (combined with readOnly)",
+    },
+  },
+};
+
+const CONNECTION_KEYS = Object.keys(CONNECTION_PROPERTIES);
+const TOP_LEVEL_KEYS = Object.keys(CONFIG_SCHEMA.properties);
+const INSTANCE_KEYS = ["name", ...CONNECTION_KEYS, "default"];
+// Used as a subdirectory of dataDir, so keep it filesystem-safe
+const INSTANCE_NAME = /^[A-Za-z0-9][\w.-]*$/;
+
+type RawConfig = Record<string, unknown>;
+
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
+
+function checkKeys(raw: RawConfig, allowed: string[], prefix: string): void {
+  for (const key of Object.keys(raw)) {
+    if (!allowed.includes(key)) {
+      throw new ConfigError(`unknown setting. Known settings: ${allowed.join(", ")}`, `${prefix}${key}`);
+    }
+  }
+}
+
+function optionalString(raw: RawConfig, key: string, prefix: string): string | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") throw new ConfigError("must be a string", `${prefix}${key}`);
+  return value.trim();
+}
+
+function optionalNumber(
+  raw: RawConfig,
+  key: string,
+  prefix: string,
+  min: number
+): number | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min) {
+    throw new ConfigError(`must be a number of at least ${min}`, `${prefix}${key}`);
+  }
+  return value;
+}
+
+function optionalBoolean(raw: RawConfig, key: string, prefix: string): boolean | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "boolean") throw new ConfigError("must be true or false", `${prefix}${key}`);
+  return value;
+}
+
+function readSecretFile(path: string, field: string): string {
+  let text: string;
+  try {
+    text = readFileSync(expandHome(path), "utf8");
+  } catch (error) {
+    throw new ConfigError(`cannot read ${path}: ${(error as Error).message}`, field);
+  }
+  const secret = text.trim();
+  if (!secret) throw new ConfigError(`${path} is empty`, field);
+  return secret;
+}
+
+function resolveCredentials(
+  raw: RawConfig,
+  prefix: string,
+  env: NodeJS.ProcessEnv | null
+): HomeBoxCredentials {
+  const token = optionalString(raw, "token", prefix);
+  if (token) return { type: "token", token, source: `${prefix}token` };
+
+  const tokenFile = optionalString(raw, "tokenFile", prefix);
+  if (tokenFile) {
+    return {
+      type: "token",
+      token: readSecretFile(tokenFile, `${prefix}tokenFile`),
+      source: `${prefix}tokenFile`,
+    };
+  }
+
+  const username = optionalString(raw, "username", prefix) ?? (env?.HOMEBOX_USERNAME || undefined);
+  const withUsername = (password: string, source: string): HomeBoxCredentials => {
+    if (!username) {
+      throw new ConfigError(
+        `${source} is set, so a username is needed too${env ? " (set username or HOMEBOX_USERNAME)" : ""}`,
+        `${prefix}username`
+      );
+    }
+    return { type: "password", username, password, source };
+  };
+
+  const password = optionalString(raw, "password", prefix);
+  if (password) return withUsername(password, `${prefix}password`);
+
+  const passwordFile = optionalString(raw, "passwordFile", prefix);
+  if (passwordFile) {
+    return withUsername(readSecretFile(passwordFile, `${prefix}passwordFile`), `${prefix}passwordFile`);
+  }
+
+  if (env?.HOMEBOX_TOKEN) {
+    return { type: "token", token: env.HOMEBOX_TOKEN.trim(), source: "HOMEBOX_TOKEN" };
+  }
+  if (env?.HOMEBOX_PASSWORD) return withUsername(env.HOMEBOX_PASSWORD, "HOMEBOX_PASSWORD");
+
+  throw new ConfigError(
+    `no HomeBox credentials. Set token, tokenFile, or username with password or passwordFile${env ? " (or the HOMEBOX_TOKEN / HOMEBOX_USERNAME and HOMEBOX_PASSWORD environment variables)" : ""}`,
+    prefix ? prefix.slice(0, -1) : undefined
+  );
+}
+
+function resolveBaseUrl(value: string | undefined, field: string): string {
+  const baseUrl = (value || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw new ConfigError(`"${baseUrl}" is not a valid URL`, field);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ConfigError("must use the http:// or https:// scheme", field);
+  }
+  return baseUrl;
+}
+
+/**
+ * One instance's settings. `defaults` holds the top-level values an
+ * instance inherits (baseUrl, timeouts, TTLs); `env` is null for entries of
+ * an `instances` list.
+ */
+function resolveInstance(
+  raw: RawConfig,
+  name: string,
+  prefix: string,
+  defaults: RawConfig,
+  env: NodeJS.ProcessEnv | null
+): InstanceSettings {
+  const number = (key: string, min: number, fallback: number) =>
+    optionalNumber(raw, key, prefix, min) ?? optionalNumber(defaults, key, "", min) ?? fallback;
+  return {
+    name,
+    baseUrl: resolveBaseUrl(
+      optionalString(raw, "baseUrl", prefix) ??
+        optionalString(defaults, "baseUrl", "") ??
+        (env?.HOMEBOX_URL || undefined),
+      `${prefix}baseUrl`
+    ),
+    credentials: resolveCredentials(raw, prefix, env),
+    timeoutMs: number("timeoutMs", 1, DEFAULT_TIMEOUT_MS),
+    maxRetries: number("maxRetries", 0, DEFAULT_MAX_RETRIES),
+    locationCacheTtlMs: number("locationCacheTtlMs", 0, DEFAULT_LOCATION_CACHE_TTL_MS),
+    searchIndexTtlMs: number("searchIndexTtlMs", 0, DEFAULT_SEARCH_INDEX_TTL_MS),
+  };
+}
+
+/**
+ * Validate the plugin config and resolve every setting. Throws ConfigError
+ * describing the first problem found.
+ */
+export function loadSettings(
+  pluginConfig: unknown,
+  env: NodeJS.ProcessEnv = process.env
+): HoardSettings {
+  if (pluginConfig !== undefined && pluginConfig !== null && typeof pluginConfig !== "object") {
+    throw new ConfigError("must be an object");
+  }
+  const raw = (pluginConfig ?? {}) as RawConfig;
+  checkKeys(raw, TOP_LEVEL_KEYS, "");
+
+  let instances: InstanceSettings[];
+  let defaultInstance: string;
+  const multiInstance = raw.instances !== undefined && raw.instances !== null;
+
+  if (multiInstance) {
+    if (!Array.isArray(raw.instances) || raw.instances.length === 0) {
+      throw new ConfigError("must be a non-empty list", "instances");
+    }
+    // Credentials belong to the instances; baseUrl, timeouts and TTLs act as shared defaults
+    for (const key of ["username", "password", "passwordFile", "token", "tokenFile"]) {
+      if (raw[key] !== undefined) {
+        throw new ConfigError(
+          "cannot be combined with instances; set it on each instance instead",
+          key
+        );
+      }
+    }
+
+    const seen = new Set<string>();
+    const defaults: string[] = [];
+    instances = raw.instances.map((entry: unknown, i: number) => {
+      const prefix = `instances[${i}].`;
+      if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+        throw new ConfigError("must be an object", `instances[${i}]`);
+      }
+      const instanceRaw = entry as RawConfig;
+      checkKeys(instanceRaw, INSTANCE_KEYS, prefix);
+      const name = optionalString(instanceRaw, "name", prefix);
+      if (!name || !INSTANCE_NAME.test(name)) {
+        throw new ConfigError(
+          "every instance needs a name made of letters, digits, '.', '_' or '-'",
+          `${prefix}name`
+        );
+      }
+      if (seen.has(name.toLowerCase())) {
+        throw new ConfigError(`another instance is already called "${name}"`, `${prefix}name`);
+      }
+      seen.add(name.toLowerCase());
+      if (optionalBoolean(instanceRaw, "default", prefix)) defaults.push(name);
+      return resolveInstance(instanceRaw, name, prefix, raw, null);
+    });
+
+    if (defaults.length > 1) {
+      throw new ConfigError(`only one instance can be the default (found ${defaults.join(", ")})`, "instances");
+    }
+    defaultInstance = defaults[0] ?? instances[0].name;
+  } else {
+    instances = [resolveInstance(raw, DEFAULT_INSTANCE_NAME, "", raw, env)];
+    defaultInstance = DEFAULT_INSTANCE_NAME;
+  }
+
+  let allowedTools: string[] | null = null;
+  if (raw.allowedTools !== undefined && raw.allowedTools !== null) {
+    const names = raw.allowedTools;
+    if (!Array.isArray(names) || names.some((name) => typeof name !== "string")) {
+      throw new ConfigError("must be a list of tool names", "allowedTools");
+    }
+    allowedTools = names;
+  }
+
+  return {
+    instances,
+    defaultInstance,
+    multiInstance,
+    dataDir: expandHome(
+      optionalString(raw, "dataDir", "") || env.HOARD_DATA_DIR || DEFAULT_DATA_DIR
+    ),
+    readOnly: optionalBoolean(raw, "readOnly", "") ?? false,
+    allowedTools,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Confirmation Tokens
+ *
+ * Destructive tools run in two phases: the first call previews what would be
+ * affected and issues a short-lived, single-use token; the action only runs
+ * when the same tool is called again with that token for the same target.
+ */
+
+import { randomBytes } from "node:crypto";
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+interface PendingConfirmation {
+  action: string;
+  target: string;
+  expiresAt: number;
+}
+
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+  private ttlMs: number;
+
+  constructor(options: { ttlMs?: number } = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  get ttlMinutes(): number {
+    return Math.round(this.ttlMs / 60_000);
+  }
+
+  /** Issue a token allowing `action` on `target` once */
+  issue(action: string, target: string): string {
+    this.prune();
+    const token = randomBytes(4).toString("hex");
+    this.pending.set(token, { action, target, expiresAt: Date.now() + this.ttlMs });
+    return token;
+  }
+
+  /**
+   * Use up a token. Throws unless it was issued for this action and target
+   * and hasn't expired or been used.
+   */
+  consume(token: string, action: string, target: string): void {
+    this.prune();
+    const pending = this.pending.get(token.trim());
+    if (!pending || pending.action !== action || pending.target !== target) {
+      throw new Error(
+        "Confirmation token is invalid, expired or for a different target. Call again without confirmationToken for a fresh preview"
+      );
+    }
+    this.pending.delete(token.trim());
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Duplicate Detection
+ *
+ * Finds existing items that are probably the same thing as an item about to
+ * be added: similar name, same model or serial number, equivalent component
+ * values, with a bonus for sharing a location
+ */
+
+import type { HomeBoxClient, HomeBoxItem } from "./client.js";
+import { itemComponentValues, itemHasComponentValues } from "./components.js";
+import { tokenize, type ItemSearchIndex } from "./search-index.js";
+
+// Name similarity at or above this counts as "similar"
+const NAME_SIMILARITY_THRESHOLD = 0.6;
+
+// Results read per lookup; duplicates rank near the top if they exist at all
+const LOOKUP_LIMIT = 20;
+
+export interface DuplicateCandidate {
+  item: HomeBoxItem;
+  /** Higher is more likely a duplicate; roughly 0–1.1 */
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Overlap of the two names' normalized word sets (1 = same words, any order)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = new Set(tokenize(a));
+  const right = new Set(tokenize(b));
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  for (const token of left) if (right.has(token)) shared++;
+  return shared / Math.max(left.size, right.size);
+}
+
+function sameIdentifier(a: string | undefined, b: string | undefined): boolean {
+  const left = a?.trim().toLowerCase();
+  return Boolean(left) && left === b?.trim().toLowerCase();
+}
+
+/**
+ * Score one existing item against the new one; null if it isn't a candidate
+ */
+function scoreCandidate(existing: HomeBoxItem, item: HomeBoxItem): DuplicateCandidate | null {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (sameIdentifier(existing.serialNumber, item.serialNumber)) {
+    score = Math.max(score, 1);
+    reasons.push(`same serial number (${existing.serialNumber})`);
+  }
+  if (sameIdentifier(existing.modelNumber, item.modelNumber)) {
+    score = Math.max(score, 0.9);
+    reasons.push(`same model number (${existing.modelNumber})`);
+  }
+
+  const values = itemComponentValues(item);
+  if (values.length > 0 && itemHasComponentValues(existing, values)) {
+    score = Math.max(score, 0.7);
+    reasons.push(`same component values (${values.map((value) => value.canonical).join(", ")})`);
+  }
+
+  const similarity = nameSimilarity(existing.name, item.name);
+  if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+    score = Math.max(score, 0.8 * similarity);
+    reasons.push(`similar name (${Math.round(similarity * 100)}%)`);
+  }
+
+  if (reasons.length === 0) return null;
+
+  const existingLocation = existing.location?.id ?? existing.locationId;
+  if (item.locationId && existingLocation === item.locationId) {
+    score += 0.1;
+    reasons.push("same location");
+  }
+
+  return { item: existing, score, reasons };
+}
+
+/**
+ * Look up likely duplicates of `item`, best match first
+ */
+export async function findDuplicateCandidates(
+  client: HomeBoxClient,
+  item: HomeBoxItem
+): Promise<DuplicateCandidate[]> {
+  const lookups: Promise<HomeBoxItem[]>[] = [];
+  const search = (query: string) =>
+    lookups.push(
+      client.searchItemsExtended(query, { limit: LOOKUP_LIMIT }).then((result) => result.items)
+    );
+
+  search(item.name);
+  // Reordered names ("hammer, peen") won't match as a phrase; try the longest word too
+  const longestWord = tokenize(item.name).sort((a, b) => b.length - a.length)[0];
+  if (longestWord && longestWord !== item.name.toLowerCase()) search(longestWord);
+  if (item.modelNumber) search(item.modelNumber);
+  if (item.serialNumber) search(item.serialNumber);
+
+  const values = itemComponentValues(item);
+  if (values.length > 0) {
+    lookups.push(
+      client
+        .findItems({ componentValues: values }, { limit: LOOKUP_LIMIT })
+        .then((result) => result.items)
+    );
+  }
+
+  const seen = new Map<string, HomeBoxItem>();
+  for (const results of await Promise.all(lookups)) {
+    for (const existing of results) {
+      if (existing.id && !seen.has(existing.id)) seen.set(existing.id, existing);
+    }
+  }
+  return rankCandidates([...seen.values()], item);
+}
+
+/**
+ * Likely duplicates of `item` among the items in a local search index, best
+ * match first. For checking many new items at once without searching
+ * HomeBox for each; the index should be fresh.
+ */
+export function findIndexedDuplicateCandidates(
+  index: ItemSearchIndex,
+  item: HomeBoxItem
+): DuplicateCandidate[] {
+  const shortlist = index.itemsSharingTokens([
+    item.name,
+    item.modelNumber,
+    item.serialNumber,
+    ...itemComponentValues(item).map((value) => value.canonical),
+  ]);
+  // HomeBox searches leave archived items out, so the index lookup does too
+  return rankCandidates(shortlist.filter((existing) => !existing.archived), item);
+}
+
+function rankCandidates(existing: HomeBoxItem[], item: HomeBoxItem): DuplicateCandidate[] {
+  return existing
+    .map((candidate) => scoreCandidate(candidate, item))
+    .filter((candidate): candidate is DuplicateCandidate => candidate !== null)
+    .sort((a, b) => b.score - a.score);
+}
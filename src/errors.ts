@@ -0,0 +1,207 @@
+/**
+ * HomeBox error types
+ *
+ * Errors carry enough context for a tool to explain what went wrong without
+ * ever echoing credentials back to the agent
+ */
+
+const SENSITIVE_KEY = /pass(word)?|token|secret|authorization|cookie/i;
+// The same keys followed by a value in plain text: `token=abc`, `"password": "x"`
+const SENSITIVE_PAIR =
+  /((?:pass(?:word)?|token|secret|authorization|cookie)\w*["']?\s*[:=]\s*["']?)(?:Bearer\s+)?[^\s"'&<>,;]+/gi;
+const BEARER_TOKEN = /(Bearer\s+)[\w\-.~+/]+=*/gi;
+const MAX_BODY_TEXT = 500;
+
+/**
+ * Replace the values of credential-looking keys anywhere in a parsed body
+ */
+export function redactSensitive(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSensitive);
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, inner] of Object.entries(value)) {
+      result[key] = SENSITIVE_KEY.test(key) ? "[redacted]" : redactSensitive(inner);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Redact credential-looking values from a body that isn't JSON, such as an
+ * HTML error page or a proxy's plain-text message
+ */
+export function redactSensitiveText(text: string): string {
+  return text.replace(SENSITIVE_PAIR, "$1[redacted]").replace(BEARER_TOKEN, "$1[redacted]");
+}
+
+export class HomeBoxApiError extends Error {
+  /** HTTP status, or undefined when no response was received */
+  readonly status?: number;
+  readonly method: string;
+  readonly endpoint: string;
+  /** Parsed (JSON) or raw (text) response body with credentials redacted */
+  readonly body?: unknown;
+  readonly timedOut: boolean;
+
+  constructor(
+    message: string,
+    details: {
+      status?: number;
+      method: string;
+      endpoint: string;
+      body?: unknown;
+      timedOut?: boolean;
+      cause?: unknown;
+    }
+  ) {
+    super(message, { cause: details.cause });
+    this.name = "HomeBoxApiError";
+    this.status = details.status;
+    this.method = details.method;
+    this.endpoint = details.endpoint;
+    this.body = details.body;
+    this.timedOut = details.timedOut ?? false;
+  }
+
+  /** True for failures worth retrying: no response at all, or a 5xx */
+  get isTransient(): boolean {
+    return this.status === undefined || this.status >= 500;
+  }
+
+  /** HomeBox's own explanation from the response body, if it sent one */
+  get detail(): string | undefined {
+    const body = this.body;
+    if (typeof body === "string") return body || undefined;
+    if (body && typeof body === "object") {
+      const fields = body as Record<string, unknown>;
+      const detail = fields.error ?? fields.message ?? fields.detail;
+      if (typeof detail === "string") return detail;
+    }
+    return undefined;
+  }
+
+  static async fromResponse(
+    response: Response,
+    method: string,
+    endpoint: string,
+    prefix = "HomeBox API error"
+  ): Promise<HomeBoxApiError> {
+    let body: unknown;
+    try {
+      const text = await response.text();
+      try {
+        body = redactSensitive(JSON.parse(text));
+      } catch {
+        const redacted = redactSensitiveText(text);
+        body =
+          redacted.length > MAX_BODY_TEXT ? `${redacted.slice(0, MAX_BODY_TEXT)}…` : redacted;
+      }
+    } catch {
+      body = undefined;
+    }
+
+    const error = new HomeBoxApiError(`${prefix} ${response.status}: ${response.statusText}`, {
+      status: response.status,
+      method,
+      endpoint,
+      body,
+    });
+    const detail = error.detail;
+    if (detail) error.message += ` (${detail})`;
+    return error;
+  }
+
+  static fromNetworkError(
+    cause: unknown,
+    method: string,
+    endpoint: string,
+    timeoutMs: number
+  ): HomeBoxApiError {
+    const timedOut = cause instanceof Error && cause.name === "AbortError";
+    const message = timedOut
+      ? `HomeBox request timed out after ${timeoutMs}ms: ${method} ${endpoint}`
+      : `HomeBox request failed: ${method} ${endpoint}: ${cause instanceof Error ? cause.message : String(cause)}`;
+    return new HomeBoxApiError(message, { method, endpoint, timedOut, cause });
+  }
+}
+
+/**
+ * A location name or path that matched nothing, or more than one location
+ */
+export class LocationResolutionError extends Error {
+  readonly reference: string;
+  /** Full paths of the locations that matched, when ambiguous */
+  readonly candidates: string[];
+  /** Full paths of near misses (one typo away), when nothing matched */
+  readonly suggestions: string[];
+
+  constructor(reference: string, candidates: string[] = [], suggestions: string[] = []) {
+    super(
+      candidates.length > 0
+        ? `Location "${reference}" is ambiguous; it matches: ${candidates.join("; ")}. Use a longer path or the location ID`
+        : suggestions.length > 0
+          ? `No location matches "${reference}". Did you mean: ${suggestions.join("; ")}?`
+          : `No location matches "${reference}". Use homebox_get_locations to see available locations`
+    );
+    this.name = "LocationResolutionError";
+    this.reference = reference;
+    this.candidates = candidates;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * Creating a missing location path failed part way. `created` holds the
+ * locations made before the failure, parents first, so callers can record
+ * or remove them.
+ */
+export class LocationCreationError extends Error {
+  readonly reference: string;
+  readonly created: string[];
+
+  constructor(reference: string, created: string[], cause: unknown) {
+    super(
+      `Could not create location "${reference}"${created.length > 0 ? ` (${created.length} of its levels were created first)` : ""}: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause }
+    );
+    this.name = "LocationCreationError";
+    this.reference = reference;
+    this.created = created;
+  }
+}
+
+/**
+ * One or more label names that don't match an existing label
+ */
+export class LabelResolutionError extends Error {
+  readonly missing: string[];
+
+  constructor(missing: string[], available: string[]) {
+    super(
+      `No label named ${missing.map((name) => `"${name}"`).join(", ")}. ` +
+        (available.length > 0
+          ? `Existing labels: ${available.join(", ")}. `
+          : "There are no labels yet. ") +
+        "Pass createMissingLabels: true to create them"
+    );
+    this.name = "LabelResolutionError";
+    this.missing = missing;
+  }
+}
+
+/**
+ * A problem with the plugin's configuration, found when the plugin loads
+ */
+export class ConfigError extends Error {
+  /** Dotted path of the offending setting, e.g. "instances[1].baseUrl" */
+  readonly field?: string;
+
+  constructor(problem: string, field?: string) {
+    super(
+      `Invalid hoard plugin config${field ? ` at plugins.entries.hoard.config.${field}` : ""}: ${problem}`
+    );
+    this.name = "ConfigError";
+    this.field = field;
+  }
+}
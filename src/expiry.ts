@@ -0,0 +1,111 @@
+/**
+ * Warranty and Expiry Dates
+ *
+ * Warranties come from HomeBox's own `warrantyExpires` field. Consumables
+ * (glue, batteries, reagents) have no built-in expiry date, so it is read from
+ * an "Expires" custom field or, failing that, an "Expires: YYYY-MM-DD" line in
+ * the item's notes.
+ */
+
+import type { HomeBoxItem } from "./client.js";
+import { dateOnly } from "./filters.js";
+
+export type ExpiryKind = "warranty" | "expiry";
+
+export interface ExpiryEntry {
+  item: HomeBoxItem;
+  kind: ExpiryKind;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Negative once the date has passed */
+  daysLeft: number;
+  /** Where the date was read from, e.g. "custom field Best Before" */
+  source: string;
+}
+
+// Custom field names (compared without case, spaces or punctuation)
+const EXPIRY_FIELD_NAMES = new Set([
+  "expires",
+  "expiry",
+  "expirydate",
+  "expiration",
+  "expirationdate",
+  "bestbefore",
+  "useby",
+]);
+
+// "Expires: 2026-03-01", "exp 2026-03-01", "best before 2026-03-01"
+const NOTES_EXPIRY = /\b(?:expires?|expiry|expiration|exp|best before|use by)\b\s*[:=]?\s*(\d{4}-\d{2}-\d{2})/gi;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function fieldKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function isDate(value: string | undefined): value is string {
+  return Boolean(value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)));
+}
+
+/**
+ * Whole days from `today` to `date` (both compared as UTC calendar dates)
+ */
+export function daysUntil(date: string, today: Date = new Date()): number {
+  const start = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  return Math.round((Date.parse(date) - start) / DAY_MS);
+}
+
+/**
+ * Warranty end date, unless the warranty is lifetime or unset
+ */
+export function warrantyExpiry(item: HomeBoxItem): string | undefined {
+  if (item.lifetimeWarranty) return undefined;
+  const date = dateOnly(item.warrantyExpires);
+  return isDate(date) ? date : undefined;
+}
+
+/**
+ * Consumable expiry date from a custom field, else the last matching line in
+ * the notes (notes are appended over time, so the last one is the newest
+ * batch). Needs the full item.
+ */
+export function consumableExpiry(item: HomeBoxItem): { date: string; source: string } | undefined {
+  for (const field of item.fields ?? []) {
+    if (!EXPIRY_FIELD_NAMES.has(fieldKey(field.name))) continue;
+    const date = dateOnly(field.type === "time" ? field.timeValue : field.textValue?.trim());
+    if (isDate(date)) return { date, source: `custom field ${field.name}` };
+  }
+
+  const matches = [...(item.notes ?? "").matchAll(NOTES_EXPIRY)];
+  const date = matches.length > 0 ? matches[matches.length - 1][1] : undefined;
+  if (isDate(date)) return { date, source: "notes" };
+  return undefined;
+}
+
+/**
+ * Every warranty/expiry date on an item
+ */
+export function expiryEntries(item: HomeBoxItem, today: Date = new Date()): ExpiryEntry[] {
+  const entries: ExpiryEntry[] = [];
+  const warranty = warrantyExpiry(item);
+  if (warranty) {
+    entries.push({
+      item,
+      kind: "warranty",
+      date: warranty,
+      daysLeft: daysUntil(warranty, today),
+      source: "warranty",
+    });
+  }
+  const consumable = consumableExpiry(item);
+  if (consumable) {
+    entries.push({
+      item,
+      kind: "expiry",
+      date: consumable.date,
+      daysLeft: daysUntil(consumable.date, today),
+      source: consumable.source,
+    });
+  }
+  return entries;
+}
@@ -0,0 +1,173 @@
+/**
+ * Inventory Export
+ *
+ * Renders items as CSV, JSON or Markdown. Output is sorted and carries no
+ * timestamps, so exporting an unchanged inventory twice gives identical files
+ * (useful for committing snapshots). CSV headers match what homebox_import
+ * recognizes, so an export can be imported again.
+ */
+
+import type { HomeBoxItem } from "./client.js";
+import { dateOnly } from "./filters.js";
+import type { LocationTree } from "./locations.js";
+
+export type ExportFormat = "csv" | "json" | "markdown";
+
+export interface ExportLinks {
+  item(itemId: string): string;
+  attachment(itemId: string, attachmentId: string): string;
+}
+
+// Columns written to CSV, in order
+const CSV_COLUMNS = [
+  "id",
+  "name",
+  "quantity",
+  "location",
+  "labels",
+  "description",
+  "manufacturer",
+  "modelNumber",
+  "serialNumber",
+  "purchaseFrom",
+  "purchasePrice",
+  "purchaseTime",
+  "warrantyExpires",
+  "lifetimeWarranty",
+  "insured",
+  "archived",
+  "notes",
+] as const;
+
+type ExportRecord = Record<(typeof CSV_COLUMNS)[number], string | number | boolean | undefined>;
+
+function locationPath(tree: LocationTree, item: HomeBoxItem): string {
+  return tree.path(item.location?.id ?? item.locationId) || item.location?.name || "";
+}
+
+function toRecord(tree: LocationTree, item: HomeBoxItem): ExportRecord {
+  return {
+    id: item.id,
+    name: item.name,
+    quantity: item.quantity,
+    location: locationPath(tree, item),
+    labels: (item.labels ?? []).map((label) => label.name).join("; "),
+    description: item.description,
+    manufacturer: item.manufacturer,
+    modelNumber: item.modelNumber,
+    serialNumber: item.serialNumber,
+    purchaseFrom: item.purchaseFrom,
+    purchasePrice: item.purchasePrice || undefined,
+    purchaseTime: dateOnly(item.purchaseTime),
+    warrantyExpires: dateOnly(item.warrantyExpires),
+    lifetimeWarranty: item.lifetimeWarranty,
+    insured: item.insured,
+    archived: item.archived,
+    notes: item.notes,
+  };
+}
+
+/** Items ordered by location path, then name */
+function sortForExport(tree: LocationTree, items: HomeBoxItem[]): HomeBoxItem[] {
+  return [...items].sort(
+    (a, b) =>
+      locationPath(tree, a).localeCompare(locationPath(tree, b)) ||
+      a.name.localeCompare(b.name) ||
+      (a.id ?? "").localeCompare(b.id ?? "")
+  );
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(tree: LocationTree, items: HomeBoxItem[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const item of sortForExport(tree, items)) {
+    const record = toRecord(tree, item);
+    lines.push(CSV_COLUMNS.map((column) => csvCell(record[column])).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function toJson(tree: LocationTree, items: HomeBoxItem[], links: ExportLinks): string {
+  const records = sortForExport(tree, items).map((item) => ({
+    ...toRecord(tree, item),
+    labels: (item.labels ?? []).map((label) => label.name),
+    url: item.id ? links.item(item.id) : undefined,
+    attachments: (item.attachments ?? []).map((attachment) => ({
+      title: attachment.document?.title || attachment.id,
+      type: attachment.type,
+      url: links.attachment(item.id!, attachment.id),
+    })),
+  }));
+  return JSON.stringify(records, null, 2) + "\n";
+}
+
+function markdownCell(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "";
+  return String(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * One section per location path with a table of its items
+ */
+export function toMarkdown(
+  tree: LocationTree,
+  items: HomeBoxItem[],
+  links: ExportLinks,
+  title = "Inventory"
+): string {
+  const sections = new Map<string, HomeBoxItem[]>();
+  for (const item of sortForExport(tree, items)) {
+    const path = locationPath(tree, item) || "No location";
+    if (!sections.has(path)) sections.set(path, []);
+    sections.get(path)!.push(item);
+  }
+
+  const lines = [
+    `# ${title}`,
+    "",
+    `${items.length} ${items.length === 1 ? "item" : "items"} in ${sections.size} ${sections.size === 1 ? "location" : "locations"}`,
+  ];
+  for (const [path, sectionItems] of sections) {
+    lines.push(
+      "",
+      `## ${path}`,
+      "",
+      "| Item | Qty | Labels | Manufacturer / Model | Notes | Attachments |",
+      "|------|----:|--------|----------------------|-------|-------------|"
+    );
+    for (const item of sectionItems) {
+      const name = item.id
+        ? `[${markdownCell(item.name)}](${links.item(item.id)})`
+        : markdownCell(item.name);
+      const model = [item.manufacturer, item.modelNumber].filter(Boolean).join(" ");
+      const attachments = (item.attachments ?? [])
+        .map(
+          (attachment) =>
+            `[${markdownCell(attachment.document?.title || attachment.id)}](${links.attachment(item.id!, attachment.id)})`
+        )
+        .join(", ");
+      lines.push(
+        `| ${name}${item.archived ? " (archived)" : ""} | ${item.quantity} | ${markdownCell(
+          (item.labels ?? []).map((label) => label.name).join(", ")
+        )} | ${markdownCell(model)} | ${markdownCell(item.notes)} | ${attachments} |`
+      );
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function renderExport(
+  format: ExportFormat,
+  tree: LocationTree,
+  items: HomeBoxItem[],
+  links: ExportLinks
+): string {
+  if (format === "csv") return toCsv(tree, items);
+  if (format === "json") return toJson(tree, items, links);
+  return toMarkdown(tree, items, links);
+}
@@ -0,0 +1,173 @@
+/**
+ * Structured item filters
+ *
+ * HomeBox's items endpoint handles text search, locations, labels and archived
+ * state itself; everything else here is applied to the results client-side
+ */
+
+import type { HomeBoxItem } from "./client.js";
+import { itemHasComponentValues, type ComponentValue } from "./components.js";
+
+export type ItemSortField = "name" | "quantity" | "createdAt" | "updatedAt";
+
+export interface ItemFilters {
+  /** Free-text search */
+  query?: string;
+  locationIds?: string[];
+  /** Also match items in any location nested under `locationIds` */
+  includeSubLocations?: boolean;
+  /** Items must carry all of these labels */
+  labelIds?: string[];
+  /** Archived items: hidden by default, included alongside, or exclusively */
+  archived?: "exclude" | "include" | "only";
+  /** Case-insensitive substring match */
+  manufacturer?: string;
+  /** Case-insensitive substring match */
+  modelNumber?: string;
+  minQuantity?: number;
+  maxQuantity?: number;
+  /** Inclusive, YYYY-MM-DD */
+  purchasedAfter?: string;
+  /** Inclusive, YYYY-MM-DD */
+  purchasedBefore?: string;
+  /** Name or description must mention an equivalent of each value (e.g. 10kΩ = "10k") */
+  componentValues?: ComponentValue[];
+  sortBy?: ItemSortField;
+  sortOrder?: "asc" | "desc";
+}
+
+/**
+ * Filters that can only be checked against the full item record; the search
+ * endpoint returns summaries without these fields
+ */
+export function hasDetailFilters(filters: ItemFilters): boolean {
+  return Boolean(
+    filters.manufacturer ||
+      filters.modelNumber ||
+      filters.purchasedAfter ||
+      filters.purchasedBefore
+  );
+}
+
+/**
+ * Whether results need to be read in full and filtered or sorted locally
+ * instead of paging straight through the server's results
+ */
+export function needsClientPass(filters: ItemFilters): boolean {
+  return (
+    hasDetailFilters(filters) ||
+    filters.archived === "only" ||
+    filters.minQuantity !== undefined ||
+    filters.maxQuantity !== undefined ||
+    (filters.componentValues?.length ?? 0) > 0 ||
+    (filters.labelIds?.length ?? 0) > 1 ||
+    filters.sortBy === "quantity" ||
+    filters.sortOrder === "desc"
+  );
+}
+
+/**
+ * Query parameters understood by GET /api/v1/items
+ */
+export function toServerFilters(
+  filters: ItemFilters,
+  locationIds: string[] | undefined
+): Record<string, string | string[] | undefined> {
+  return {
+    search: filters.query || undefined,
+    locations: locationIds?.length ? locationIds : undefined,
+    labels: filters.labelIds?.length ? filters.labelIds : undefined,
+    includeArchived:
+      filters.archived === "include" || filters.archived === "only" ? "true" : undefined,
+    orderBy:
+      filters.sortBy && filters.sortBy !== "quantity" ? filters.sortBy : undefined,
+  };
+}
+
+/**
+ * HomeBox reports unset dates as year 1; normalize to YYYY-MM-DD or undefined
+ */
+export function dateOnly(value: string | undefined): string | undefined {
+  if (!value || value.startsWith("0001-")) return undefined;
+  return value.slice(0, 10);
+}
+
+function includesIgnoreCase(value: string | undefined, needle: string): boolean {
+  return (value ?? "").toLowerCase().includes(needle.toLowerCase());
+}
+
+/**
+ * Checks that work on the summary records returned by the search endpoint
+ */
+export function matchesSummaryFilters(item: HomeBoxItem, filters: ItemFilters): boolean {
+  if (filters.archived === "only" && !item.archived) return false;
+  if (filters.minQuantity !== undefined && item.quantity < filters.minQuantity) return false;
+  if (filters.maxQuantity !== undefined && item.quantity > filters.maxQuantity) return false;
+  if (filters.componentValues?.length && !itemHasComponentValues(item, filters.componentValues)) {
+    return false;
+  }
+
+  // The server matches any of several labels; we want all of them
+  if (filters.labelIds && filters.labelIds.length > 1 && !hasAllLabels(item, filters.labelIds)) {
+    return false;
+  }
+
+  return true;
+}
+
+function hasAllLabels(item: HomeBoxItem, labelIds: string[]): boolean {
+  const itemLabels = new Set(item.labels?.map((label) => label.id) ?? item.tagIds ?? []);
+  return labelIds.every((id) => itemLabels.has(id));
+}
+
+/**
+ * Apply every filter to a full item record held locally (e.g. from the fuzzy
+ * index), including the ones HomeBox normally handles server-side.
+ * `locationIds` should already include nested locations if wanted.
+ */
+export function matchesAllFilters(
+  item: HomeBoxItem,
+  filters: ItemFilters,
+  locationIds?: Set<string>
+): boolean {
+  if (locationIds && !locationIds.has(item.location?.id ?? item.locationId ?? "")) return false;
+  if (filters.labelIds?.length && !hasAllLabels(item, filters.labelIds)) return false;
+  if (item.archived && (filters.archived ?? "exclude") === "exclude") return false;
+  return matchesSummaryFilters(item, filters) && matchesDetailFilters(item, filters);
+}
+
+/**
+ * Checks that need the full item record
+ */
+export function matchesDetailFilters(item: HomeBoxItem, filters: ItemFilters): boolean {
+  if (filters.manufacturer && !includesIgnoreCase(item.manufacturer, filters.manufacturer)) {
+    return false;
+  }
+  if (filters.modelNumber && !includesIgnoreCase(item.modelNumber, filters.modelNumber)) {
+    return false;
+  }
+
+  if (filters.purchasedAfter || filters.purchasedBefore) {
+    const purchased = dateOnly(item.purchaseTime);
+    if (!purchased) return false;
+    if (filters.purchasedAfter && purchased < filters.purchasedAfter.slice(0, 10)) return false;
+    if (filters.purchasedBefore && purchased > filters.purchasedBefore.slice(0, 10)) return false;
+  }
+
+  return true;
+}
+
+export function compareItems(sortBy: ItemSortField, sortOrder: "asc" | "desc" = "asc") {
+  const direction = sortOrder === "desc" ? -1 : 1;
+  return (a: HomeBoxItem, b: HomeBoxItem): number => {
+    let result: number;
+    if (sortBy === "quantity") {
+      result = a.quantity - b.quantity;
+    } else if (sortBy === "name") {
+      result = a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+    } else {
+      result = (a[sortBy] ?? "").localeCompare(b[sortBy] ?? "");
+    }
+    return result * direction;
+  };
+}
@@ -0,0 +1,652 @@
+/**
+ * Bulk Import
+ *
+ * Reads items from CSV or JSON, maps columns onto item fields, validates every
+ * row (plus location/label names and likely duplicates) before anything is
+ * written, then creates items a few at a time. Each run writes a manifest of
+ * what it created so the whole run can be rolled back.
+ */
+
+import { randomBytes } from "node:crypto";
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  HomeBoxApiError,
+  LocationCreationError,
+  type HomeBoxClient,
+  type HomeBoxItem,
+  type HomeBoxLabel,
+  type HomeBoxLocation,
+} from "./client.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { findIndexedDuplicateCandidates, type DuplicateCandidate } from "./duplicates.js";
+import type { ItemSearchIndex } from "./search-index.js";
+import { readJsonFile, writeJsonFile } from "./storage.js";
+
+export type ImportFormat = "csv" | "json";
+
+/** Item fields a column can map to; `location` and `labels` take names */
+export const IMPORT_FIELDS = [
+  "name",
+  "quantity",
+  "description",
+  "location",
+  "labels",
+  "notes",
+  "serialNumber",
+  "modelNumber",
+  "manufacturer",
+  "purchaseFrom",
+  "purchasePrice",
+  "purchaseTime",
+  "warrantyExpires",
+  "warrantyDetails",
+  "lifetimeWarranty",
+  "insured",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Header spellings recognized without an explicit mapping (compared without case or punctuation)
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "item", "itemname", "title", "partname"],
+  quantity: ["quantity", "qty", "count", "amount"],
+  description: ["description", "desc", "details"],
+  location: ["location", "locationid", "locationpath", "bin", "storage"],
+  labels: ["labels", "label", "tags", "tag", "categories", "category"],
+  notes: ["notes", "note", "comments", "comment"],
+  serialNumber: ["serialnumber", "serial", "sn"],
+  modelNumber: ["modelnumber", "model", "partnumber", "mpn", "pn", "sku"],
+  manufacturer: ["manufacturer", "mfr", "mfg", "brand", "make"],
+  purchaseFrom: ["purchasefrom", "supplier", "vendor", "seller", "store"],
+  purchasePrice: ["purchaseprice", "price", "cost", "unitprice"],
+  purchaseTime: ["purchasetime", "purchasedate", "purchased"],
+  warrantyExpires: ["warrantyexpires", "warrantyexpiry", "warrantyuntil", "warranty"],
+  warrantyDetails: ["warrantydetails"],
+  lifetimeWarranty: ["lifetimewarranty"],
+  insured: ["insured"],
+};
+
+// Multiple labels in one cell: "ESD; SMD" or "ESD, SMD"
+const LABEL_SEPARATOR = /\s*[;,|]\s*/;
+
+const DEFAULT_IMPORT_CONCURRENCY = 4;
+
+/** One data row of the input, before mapping */
+export interface SourceRecord {
+  /** Line the row starts on in a CSV file (the header is line 1), or 1-based position in JSON */
+  row: number;
+  values: Record<string, unknown>;
+}
+
+export interface ImportRow {
+  /** Same numbering as SourceRecord.row */
+  row: number;
+  item: HomeBoxItem;
+  location?: string;
+  labels: string[];
+}
+
+export interface RowProblem {
+  row: number;
+  message: string;
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  errors: RowProblem[];
+  /** Columns that didn't map to any field and were ignored */
+  ignoredColumns: string[];
+  duplicates: { row: number; candidates: DuplicateCandidate[]; sameAsRow?: number }[];
+  /** Location paths and label names that don't exist yet */
+  newLocations: string[];
+  newLabels: string[];
+}
+
+export interface ImportManifest {
+  runId: string;
+  source: string;
+  startedAt: string;
+  finishedAt?: string;
+  rolledBackAt?: string;
+  created: { row: number; id: string; name: string }[];
+  createdLocations: string[];
+  createdLabels: string[];
+  skipped: RowProblem[];
+  failed: RowProblem[];
+}
+
+export interface RollbackResult {
+  deletedItems: number;
+  alreadyGone: number;
+  deletedLocations: number;
+  keptLocations: number;
+  deletedLabels: number;
+  keptLabels: number;
+  failed: string[];
+}
+
+/** Something a rollback deleted, as it was just before */
+export type RolledBackRecord =
+  | { type: "item"; before: HomeBoxItem }
+  | { type: "location"; before: HomeBoxLocation }
+  | { type: "label"; before: HomeBoxLabel };
+
+function columnKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, "" escapes, newlines in quotes).
+ * Each row carries the line it starts on; blank rows are dropped after
+ * numbering, so the numbers match the file.
+ */
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  return rows.filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+}
+
+export function detectFormat(content: string, path?: string): ImportFormat {
+  if (path?.toLowerCase().endsWith(".json")) return "json";
+  if (path?.toLowerCase().endsWith(".csv")) return "csv";
+  return /^\s*[[{]/.test(content) ? "json" : "csv";
+}
+
+/**
+ * Turn file content into one record (column → value) per data row
+ */
+export function readRecords(content: string, format: ImportFormat): SourceRecord[] {
+  if (format === "json") {
+    const data = JSON.parse(content.replace(/^\uFEFF/, ""));
+    const records = Array.isArray(data) ? data : data?.items;
+    if (!Array.isArray(records)) {
+      throw new Error("JSON import must be an array of items or an object with an `items` array");
+    }
+    return records.map((values, index) => ({ row: index + 1, values }));
+  }
+
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+  return rows.map(({ line, cells }) => ({
+    row: line,
+    values: Object.fromEntries(
+      header.cells.map((column, index) => [column.trim(), cells[index] ?? ""])
+    ),
+  }));
+}
+
+/**
+ * Column → field for every column, from explicit `overrides` first and the
+ * known aliases second. Columns mapped to "" or matching nothing are ignored.
+ */
+export function buildColumnMapping(
+  columns: string[],
+  overrides: Record<string, string> = {}
+): Map<string, ImportField> {
+  for (const [column, field] of Object.entries(overrides)) {
+    if (field && !IMPORT_FIELDS.includes(field as ImportField)) {
+      throw new Error(
+        `Column "${column}" maps to unknown field "${field}". Valid fields: ${IMPORT_FIELDS.join(", ")}`
+      );
+    }
+  }
+
+  const claimed = new Set(Object.values(overrides).filter(Boolean));
+  const mapping = new Map<string, ImportField>();
+  for (const column of columns) {
+    if (column in overrides) {
+      if (overrides[column]) mapping.set(column, overrides[column] as ImportField);
+      continue;
+    }
+    const key = columnKey(column);
+    const field = IMPORT_FIELDS.find((candidate) => FIELD_ALIASES[candidate].includes(key));
+    if (field && !claimed.has(field)) {
+      mapping.set(column, field);
+      claimed.add(field);
+    }
+  }
+  return mapping;
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "y", "1", "x"].includes(normalized)) return true;
+  if (["false", "no", "n", "0", ""].includes(normalized)) return false;
+  return undefined;
+}
+
+/**
+ * Build one row's item from its record, collecting every problem found
+ */
+export function mapRecord(
+  record: Record<string, unknown>,
+  mapping: Map<string, ImportField>,
+  row: number
+): { row?: ImportRow; errors: string[] } {
+  const errors: string[] = [];
+  const values = new Map<ImportField, unknown>();
+  for (const [column, field] of mapping) {
+    const value = record[column];
+    if (value !== undefined && value !== null && value !== "") values.set(field, value);
+  }
+  const text = (field: ImportField) => {
+    const value = values.get(field);
+    return value === undefined ? undefined : String(value).trim() || undefined;
+  };
+
+  const name = text("name");
+  if (!name) errors.push("missing name");
+
+  let quantity = 1;
+  if (values.has("quantity")) {
+    quantity = Number(text("quantity"));
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      errors.push(`quantity "${text("quantity")}" is not a whole number ≥ 0`);
+    }
+  }
+
+  let purchasePrice: number | undefined;
+  if (values.has("purchasePrice")) {
+    purchasePrice = parseFloat(text("purchasePrice")!.replace(/[^0-9.-]/g, ""));
+    if (Number.isNaN(purchasePrice)) errors.push(`purchasePrice "${text("purchasePrice")}" is not a number`);
+  }
+
+  const date = (field: "purchaseTime" | "warrantyExpires") => {
+    const value = text(field);
+    if (value && (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(Date.parse(value)))) {
+      errors.push(`${field} "${value}" is not a YYYY-MM-DD date`);
+      return undefined;
+    }
+    return value;
+  };
+
+  const flag = (field: "lifetimeWarranty" | "insured") => {
+    const value = values.get(field);
+    if (value === undefined || typeof value === "boolean") return value;
+    const parsed = parseBoolean(String(value));
+    if (parsed === undefined) errors.push(`${field} "${value}" is not yes/no`);
+    return parsed;
+  };
+
+  const rawLabels = values.get("labels");
+  const labels = (Array.isArray(rawLabels) ? rawLabels.map(String) : (text("labels") ?? "").split(LABEL_SEPARATOR))
+    .map((label) => label.trim())
+    .filter(Boolean);
+
+  const item: HomeBoxItem = {
+    name: name ?? "",
+    quantity,
+    description: text("description"),
+    notes: text("notes"),
+    serialNumber: text("serialNumber"),
+    modelNumber: text("modelNumber"),
+    manufacturer: text("manufacturer"),
+    purchaseFrom: text("purchaseFrom"),
+    purchasePrice,
+    purchaseTime: date("purchaseTime"),
+    warrantyExpires: date("warrantyExpires"),
+    warrantyDetails: text("warrantyDetails"),
+    lifetimeWarranty: flag("lifetimeWarranty") as boolean | undefined,
+    insured: flag("insured") as boolean | undefined,
+  };
+
+  if (errors.length > 0) return { errors };
+  return { row: { row, item, location: text("location"), labels }, errors };
+}
+
+function duplicateKey(item: HomeBoxItem): string {
+  return `${item.name.trim().toLowerCase()}|${(item.modelNumber ?? "").trim().toLowerCase()}`;
+}
+
+/**
+ * Validate every record without writing anything: field values, location and
+ * label names, duplicates against HomeBox and within the file
+ */
+export async function planImport(
+  client: HomeBoxClient,
+  searchIndex: ItemSearchIndex,
+  records: SourceRecord[],
+  options: {
+    mapping?: Record<string, string>;
+    createMissingLocations?: boolean;
+    createMissingLabels?: boolean;
+  } = {}
+): Promise<ImportPlan> {
+  const columns = [...new Set(records.flatMap((record) => Object.keys(record.values)))];
+  const mapping = buildColumnMapping(columns, options.mapping);
+  if (![...mapping.values()].includes("name")) {
+    throw new Error(
+      `No column maps to "name" (columns: ${columns.join(", ")}). Pass a mapping, e.g. {"Part": "name"}`
+    );
+  }
+
+  const plan: ImportPlan = {
+    rows: [],
+    errors: [],
+    ignoredColumns: columns.filter((column) => !mapping.has(column)),
+    duplicates: [],
+    newLocations: [],
+    newLabels: [],
+  };
+
+  for (const record of records) {
+    const { row, errors } = mapRecord(record.values, mapping, record.row);
+    errors.forEach((message) => plan.errors.push({ row: record.row, message }));
+    if (row) plan.rows.push(row);
+  }
+
+  const tree = await client.getLocationHierarchy({ maxAgeMs: 0 });
+  const labels = await client.getLabels();
+  const labelNames = new Set(labels.flatMap((label) => [label.id, label.name.trim().toLowerCase()]));
+  const newLocations = new Map<string, string>();
+  const newLabels = new Map<string, string>();
+  const valid: ImportRow[] = [];
+
+  for (const row of plan.rows) {
+    const problems: string[] = [];
+    if (row.location) {
+      const match = tree.resolve(row.location);
+      if (match.status === "ambiguous") {
+        problems.push(
+          `location "${row.location}" is ambiguous: ${match.ids.map((id) => tree.path(id)).join(", ")}`
+        );
+      } else if (match.status === "found") {
+        row.item.locationId = match.id;
+      } else if (options.createMissingLocations) {
+        newLocations.set(row.location.toLowerCase(), row.location);
+      } else {
+        const suggestions = match.suggestions.map((id) => tree.path(id));
+        problems.push(
+          `location "${row.location}" not found${suggestions.length > 0 ? ` (did you mean ${suggestions.join(", ")}?)` : ""}`
+        );
+      }
+    }
+    for (const label of row.labels) {
+      if (labelNames.has(label) || labelNames.has(label.toLowerCase())) continue;
+      if (options.createMissingLabels) newLabels.set(label.toLowerCase(), label);
+      else problems.push(`label "${label}" not found`);
+    }
+    problems.forEach((message) => plan.errors.push({ row: row.row, message }));
+    if (problems.length === 0) valid.push(row);
+  }
+  plan.rows = valid;
+  plan.newLocations = [...newLocations.values()];
+  plan.newLabels = [...newLabels.values()];
+  plan.errors.sort((a, b) => a.row - b.row);
+
+  // One sync of the local index instead of a round of searches per row
+  await searchIndex.ensureFresh();
+  const firstSeen = new Map<string, number>();
+  for (const row of plan.rows) {
+    const candidates = findIndexedDuplicateCandidates(searchIndex, row.item);
+    const key = duplicateKey(row.item);
+    const sameAsRow = firstSeen.get(key);
+    if (sameAsRow === undefined) firstSeen.set(key, row.row);
+    if (candidates.length > 0 || sameAsRow !== undefined) {
+      plan.duplicates.push({ row: row.row, candidates, sameAsRow });
+    }
+  }
+
+  return plan;
+}
+
+/** Sortable, unique-enough ID for an import run, e.g. "20261019-142501-3fa2" */
+export function newImportRunId(now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  return `${stamp}-${randomBytes(2).toString("hex")}`;
+}
+
+export function manifestPath(importsDir: string, runId: string): string {
+  if (!/^[\w-]+$/.test(runId)) throw new Error(`Invalid import run ID "${runId}"`);
+  return join(importsDir, `${runId}.json`);
+}
+
+/**
+ * Create every planned row. Rows flagged as duplicates are skipped unless
+ * `allowDuplicates` is set. The manifest is rewritten after each label,
+ * location and item it creates so a crash mid-run still leaves a usable
+ * record for rollback.
+ */
+export async function runImport(
+  client: HomeBoxClient,
+  plan: ImportPlan,
+  options: {
+    importsDir: string;
+    runId: string;
+    source: string;
+    allowDuplicates?: boolean;
+    concurrency?: number;
+    onCreated?: (item: HomeBoxItem) => void;
+  }
+): Promise<ImportManifest> {
+  const path = manifestPath(options.importsDir, options.runId);
+  const manifest: ImportManifest = {
+    runId: options.runId,
+    source: options.source,
+    startedAt: new Date().toISOString(),
+    created: [],
+    createdLocations: [],
+    createdLabels: [],
+    skipped: [],
+    failed: [],
+  };
+  let saving = Promise.resolve();
+  const save = () => (saving = saving.then(() => writeJsonFile(path, manifest)));
+  await save();
+
+  const duplicateRows = new Set(plan.duplicates.map((duplicate) => duplicate.row));
+  const rows = plan.rows.filter((row) => {
+    if (options.allowDuplicates || !duplicateRows.has(row.row)) return true;
+    manifest.skipped.push({ row: row.row, message: `likely duplicate of an existing item` });
+    return false;
+  });
+
+  // Labels and locations first, one at a time, so concurrent rows don't create the same one twice
+  const labels = new Map<string, string>();
+  for (const label of await client.getLabels()) {
+    labels.set(label.id, label.id);
+    labels.set(label.name.trim().toLowerCase(), label.id);
+  }
+  for (const row of rows) {
+    for (const name of row.labels) {
+      if (labels.has(name) || labels.has(name.toLowerCase())) continue;
+      const label = await client.createLabel({ name });
+      labels.set(name.toLowerCase(), label.id);
+      manifest.createdLabels.push(label.id);
+      await save();
+    }
+  }
+
+  const locations = new Map<string, string>();
+  for (const row of rows) {
+    if (!row.location || row.item.locationId) continue;
+    const key = row.location.toLowerCase();
+    if (!locations.has(key)) {
+      let resolved: { id: string; created: string[] };
+      try {
+        resolved = await client.resolveLocation(row.location, { createMissing: true });
+      } catch (error) {
+        if (error instanceof LocationCreationError && error.created.length > 0) {
+          manifest.createdLocations.push(...error.created);
+          await save();
+        }
+        throw error;
+      }
+      locations.set(key, resolved.id);
+      manifest.createdLocations.push(...resolved.created);
+      if (resolved.created.length > 0) await save();
+    }
+    row.item.locationId = locations.get(key);
+  }
+
+  await mapWithConcurrency(rows, options.concurrency ?? DEFAULT_IMPORT_CONCURRENCY, async (row) => {
+    const tagIds = row.labels.map((name) => labels.get(name) ?? labels.get(name.toLowerCase())!);
+    try {
+      const created = await client.createItem({
+        ...row.item,
+        tagIds: tagIds.length > 0 ? [...new Set(tagIds)] : undefined,
+      });
+      manifest.created.push({ row: row.row, id: created.id!, name: created.name });
+      options.onCreated?.(created);
+    } catch (error) {
+      manifest.failed.push({
+        row: row.row,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    await save();
+  });
+
+  manifest.created.sort((a, b) => a.row - b.row);
+  manifest.failed.sort((a, b) => a.row - b.row);
+  manifest.finishedAt = new Date().toISOString();
+  await save();
+  return manifest;
+}
+
+/** Manifests of past runs, newest first */
+export async function listImports(importsDir: string): Promise<ImportManifest[]> {
+  let files: string[];
+  try {
+    files = await readdir(importsDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const manifests = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => readJsonFile<ImportManifest | null>(join(importsDir, file), null))
+  );
+  return manifests
+    .filter((manifest): manifest is ImportManifest => manifest !== null)
+    .sort((a, b) => b.runId.localeCompare(a.runId));
+}
+
+export async function readImportManifest(importsDir: string, runId: string): Promise<ImportManifest> {
+  const manifest = await readJsonFile<ImportManifest | null>(manifestPath(importsDir, runId), null);
+  if (!manifest) throw new Error(`No import run "${runId}"`);
+  return manifest;
+}
+
+/**
+ * Undo an import run: delete the items it created, then the locations and
+ * labels it created as long as nothing else has been put in or on them since.
+ * The run is only marked rolled back once nothing failed, so calling again
+ * retries whatever is left.
+ */
+export async function rollbackImport(
+  client: HomeBoxClient,
+  importsDir: string,
+  runId: string,
+  options: { onDeleted?: (deleted: RolledBackRecord) => void } = {}
+): Promise<RollbackResult> {
+  const manifest = await readImportManifest(importsDir, runId);
+  if (manifest.rolledBackAt) {
+    throw new Error(`Import ${runId} was already rolled back at ${manifest.rolledBackAt}`);
+  }
+
+  const result: RollbackResult = {
+    deletedItems: 0,
+    alreadyGone: 0,
+    deletedLocations: 0,
+    keptLocations: 0,
+    deletedLabels: 0,
+    keptLabels: 0,
+    failed: [],
+  };
+
+  await mapWithConcurrency(manifest.created, DEFAULT_IMPORT_CONCURRENCY, async (entry) => {
+    try {
+      const before = await client.getItem(entry.id);
+      await client.deleteItem(entry.id);
+      result.deletedItems++;
+      options.onDeleted?.({ type: "item", before });
+    } catch (error) {
+      if (error instanceof HomeBoxApiError && error.status === 404) result.alreadyGone++;
+      else result.failed.push(`item ${entry.name} (${entry.id}): ${(error as Error).message}`);
+    }
+  });
+
+  // Children were created after their parents, so go in reverse
+  const created = new Set(manifest.createdLocations);
+  const tree = await client.getLocationHierarchy({ maxAgeMs: 0 });
+  for (const locationId of [...manifest.createdLocations].reverse()) {
+    if (!tree.has(locationId)) continue;
+    const foreignChildren = tree.descendantIds(locationId).some((id) => !created.has(id));
+    if (foreignChildren || tree.totalItemCount(locationId) > 0) {
+      result.keptLocations++;
+      continue;
+    }
+    try {
+      const before = await client.getLocation(locationId);
+      await client.deleteLocation(locationId);
+      result.deletedLocations++;
+      options.onDeleted?.({ type: "location", before });
+    } catch (error) {
+      result.failed.push(`location ${tree.path(locationId)}: ${(error as Error).message}`);
+    }
+  }
+
+  for (const labelId of manifest.createdLabels) {
+    try {
+      const { items } = await client.findItems({ labelIds: [labelId] }, { limit: 1 });
+      if (items.length > 0) {
+        result.keptLabels++;
+        continue;
+      }
+      const before = await client.getLabel(labelId);
+      await client.deleteLabel(labelId);
+      result.deletedLabels++;
+      options.onDeleted?.({ type: "label", before });
+    } catch (error) {
+      if (error instanceof HomeBoxApiError && error.status === 404) continue;
+      result.failed.push(`label ${labelId}: ${(error as Error).message}`);
+    }
+  }
+
+  if (result.failed.length === 0) {
+    manifest.rolledBackAt = new Date().toISOString();
+    await writeJsonFile(manifestPath(importsDir, runId), manifest);
+  }
+  return result;
+}
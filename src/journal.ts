@@ -0,0 +1,462 @@
+/**
+ * Audit Journal and Undo
+ *
+ * Every change a tool makes is appended to a local JSON Lines file with the
+ * tool call that made it and before/after snapshots. The file is append-only:
+ * undoing an entry appends an "undo" entry rather than editing history.
+ */
+
+import { randomBytes } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  HomeBoxApiError,
+  diffItems,
+  getItemField,
+  setItemField,
+  type HomeBoxClient,
+  type HomeBoxItem,
+  type HomeBoxItemPatch,
+  type HomeBoxLabel,
+  type HomeBoxLocation,
+} from "./client.js";
+import { readImportManifest, rollbackImport } from "./importer.js";
+
+export type JournalOperation =
+  | "item.create"
+  | "item.update"
+  | "item.adjust"
+  | "item.delete"
+  | "attachment.add"
+  | "attachment.delete"
+  | "location.create"
+  | "location.update"
+  | "location.delete"
+  | "label.create"
+  | "label.update"
+  | "label.delete"
+  | "import.run"
+  | "undo";
+
+export interface JournalTarget {
+  type: "item" | "attachment" | "location" | "label" | "import";
+  id: string;
+  name?: string;
+  /** For attachments, the item they belong to */
+  itemId?: string;
+}
+
+/** One change, as reported by a tool */
+export interface JournalChange {
+  operation: JournalOperation;
+  target: JournalTarget;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface JournalEntry extends JournalChange {
+  id: string;
+  timestamp: string;
+  tool: string;
+  /** Tool call ID passed to execute(), shared by every change of one call */
+  callId: string;
+  /** For undo entries, the entry that was undone */
+  undoOf?: string;
+  /** For undo entries that re-created something, its new ID */
+  replacementId?: string;
+}
+
+export interface JournalQuery {
+  /** Entries touching this item, location, label or import run (ID) */
+  targetId?: string;
+  tool?: string;
+  callId?: string;
+  /** ISO date or timestamp; only entries at or after it */
+  since?: string;
+  limit?: number;
+}
+
+export class Journal {
+  private filePath: string;
+  private appending: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /** Append the changes made by one tool call, in the order they happened */
+  async append(
+    tool: string,
+    callId: string,
+    changes: (JournalChange & Partial<Pick<JournalEntry, "undoOf" | "replacementId">>)[]
+  ): Promise<JournalEntry[]> {
+    const timestamp = new Date().toISOString();
+    const entries = changes.map((change) => ({
+      id: `${Date.now().toString(36)}-${randomBytes(3).toString("hex")}`,
+      timestamp,
+      tool,
+      callId,
+      ...change,
+    }));
+    if (entries.length === 0) return entries;
+
+    const lines = entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+    // Serialize appends so concurrent tool calls never interleave lines
+    const write = this.appending.then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, lines, "utf8");
+    });
+    this.appending = write.catch(() => undefined);
+    await write;
+    return entries;
+  }
+
+  /** Every entry, oldest first */
+  async read(): Promise<JournalEntry[]> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    return text
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .flatMap((line) => {
+        // A torn last line (crash mid-write) shouldn't hide the rest
+        try {
+          return [JSON.parse(line) as JournalEntry];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  /** Matching entries, newest first */
+  async query(query: JournalQuery = {}): Promise<JournalEntry[]> {
+    const entries = await this.read();
+    return entries
+      .filter(
+        (entry) =>
+          (!query.targetId ||
+            entry.target.id === query.targetId ||
+            entry.target.itemId === query.targetId ||
+            entry.replacementId === query.targetId) &&
+          (!query.tool || entry.tool === query.tool) &&
+          (!query.callId || entry.callId === query.callId) &&
+          (!query.since || entry.timestamp >= query.since)
+      )
+      .reverse()
+      .slice(0, query.limit ?? Infinity);
+  }
+
+  /** IDs of entries that have been undone */
+  static undoneIds(entries: JournalEntry[]): Set<string> {
+    return new Set(entries.flatMap((entry) => (entry.undoOf ? [entry.undoOf] : [])));
+  }
+
+  /**
+   * Old ID → new ID for everything an undo re-created, so undoing older
+   * entries about the same thing reaches the re-created copy
+   */
+  static replacements(entries: JournalEntry[]): Map<string, string> {
+    const map = new Map<string, string>();
+    for (const entry of entries) {
+      if (entry.replacementId) map.set(entry.target.id, entry.replacementId);
+    }
+    return map;
+  }
+}
+
+/**
+ * Follow re-creations to the ID something has now
+ */
+export function currentId(replacements: Map<string, string>, id: string): string {
+  const seen = new Set<string>();
+  while (replacements.has(id) && !seen.has(id)) {
+    seen.add(id);
+    id = replacements.get(id)!;
+  }
+  return id;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof HomeBoxApiError && error.status === 404;
+}
+
+export interface UndoOutcome {
+  summary: string;
+  /** Set when the undo re-created something under a new ID */
+  replacementId?: string;
+  warnings: string[];
+}
+
+export interface UndoContext {
+  replacements: Map<string, string>;
+  importsDir: string;
+  /** Undo even if the target changed again since the entry was recorded */
+  force?: boolean;
+}
+
+/**
+ * Reverse one journal entry against HomeBox
+ */
+export async function undoEntry(
+  client: HomeBoxClient,
+  entry: JournalEntry,
+  context: UndoContext
+): Promise<UndoOutcome> {
+  const id = currentId(context.replacements, entry.target.id);
+  const name = entry.target.name ?? id;
+  const warnings: string[] = [];
+
+  switch (entry.operation) {
+    case "item.create": {
+      try {
+        await client.deleteItem(id);
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+        return { summary: `${name} was already deleted`, warnings };
+      }
+      return { summary: `Deleted ${name}`, warnings };
+    }
+
+    case "item.update": {
+      const before = entry.before as HomeBoxItem;
+      const after = entry.after as HomeBoxItem;
+      const current = await client.getItem(id);
+      const fields = diffItems(before, after)
+        .map((change) => change.field)
+        .filter((field) => getItemField(before, field) !== undefined);
+
+      const changedSince = fields.filter(
+        (field) =>
+          JSON.stringify(getItemField(current, field) ?? null) !==
+          JSON.stringify(getItemField(after, field) ?? null)
+      );
+      if (changedSince.length > 0 && !context.force) {
+        throw new Error(
+          `${name} was changed again since (${changedSince.join(", ")}); undo the later change first or pass force`
+        );
+      }
+
+      const patch: HomeBoxItemPatch = {};
+      for (const field of fields) {
+        setItemField(patch, field, getItemField(before, field) as HomeBoxItem[typeof field]);
+      }
+      // The old location or labels may have been re-created by an earlier undo
+      if (patch.locationId) patch.locationId = currentId(context.replacements, patch.locationId);
+      if (patch.tagIds) {
+        patch.tagIds = patch.tagIds.map((tagId) => currentId(context.replacements, tagId));
+      }
+      if (before.fields && JSON.stringify(before.fields) !== JSON.stringify(after.fields)) {
+        patch.fields = before.fields;
+      }
+      await client.updateItem(id, patch);
+      const restored = [...fields, ...(patch.fields ? ["custom fields"] : [])];
+      return { summary: `Restored ${name} (${restored.join(", ") || "no field changes"})`, warnings };
+    }
+
+    case "item.adjust": {
+      const before = entry.before as { quantity: number };
+      const after = entry.after as { quantity: number };
+      const delta = before.quantity - after.quantity;
+      const result = await client.adjustQuantity(id, delta, {
+        reason: `undo of journal entry ${entry.id}`,
+        allowNegative: context.force,
+      });
+      return {
+        summary: `Reversed quantity change on ${name} (${result.previousQuantity} → ${result.newQuantity})`,
+        warnings,
+      };
+    }
+
+    case "item.delete": {
+      const before = entry.before as HomeBoxItem;
+      const item: HomeBoxItem = { name: before.name, quantity: before.quantity };
+      for (const field of [
+        "description",
+        "notes",
+        "serialNumber",
+        "modelNumber",
+        "manufacturer",
+        "insured",
+        "archived",
+        "lifetimeWarranty",
+        "warrantyExpires",
+        "warrantyDetails",
+        "purchaseTime",
+        "purchaseFrom",
+        "purchasePrice",
+      ] as const) {
+        setItemField(item, field, before[field]);
+      }
+      const locationId = getItemField(before, "locationId") as string | undefined;
+      if (locationId) item.locationId = currentId(context.replacements, locationId);
+      const tagIds = getItemField(before, "tagIds") as string[] | undefined;
+      if (tagIds?.length) item.tagIds = tagIds.map((tagId) => currentId(context.replacements, tagId));
+
+      let created = await client.createItem(item);
+      if (before.fields?.length) {
+        created = await client.updateItem(created.id!, {
+          fields: before.fields.map(({ id: _fieldId, ...field }) => field),
+        });
+      }
+      if (before.attachments?.length) {
+        const count = before.attachments.length;
+        warnings.push(
+          `${count} ${count === 1 ? "attachment" : "attachments"} of ${name} could not be restored`
+        );
+      }
+      return {
+        summary: `Re-created ${name} (new ID: ${created.id})`,
+        replacementId: created.id,
+        warnings,
+      };
+    }
+
+    case "attachment.add": {
+      const itemId = currentId(context.replacements, entry.target.itemId!);
+      try {
+        await client.deleteAttachment(itemId, id);
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+        return { summary: `Attachment ${name} was already removed`, warnings };
+      }
+      return { summary: `Removed attachment ${name}`, warnings };
+    }
+
+    case "attachment.delete":
+      throw new Error(`The file behind attachment ${name} was not kept, so it cannot be restored`);
+
+    case "location.create": {
+      const tree = await client.getLocationHierarchy({ maxAgeMs: 0 });
+      if (!tree.has(id)) return { summary: `Location ${name} was already deleted`, warnings };
+      if ((tree.totalItemCount(id) > 0 || tree.childIds(id).length > 0) && !context.force) {
+        throw new Error(
+          `Location ${tree.path(id)} is no longer empty; move its contents first or pass force`
+        );
+      }
+      await client.deleteLocation(id);
+      return { summary: `Deleted location ${tree.path(id) || name}`, warnings };
+    }
+
+    case "location.update": {
+      const before = entry.before as HomeBoxLocation;
+      const parentId = before.parent?.id;
+      await client.updateLocation(id, {
+        name: before.name,
+        description: before.description ?? "",
+        parentId: parentId ? currentId(context.replacements, parentId) : null,
+      });
+      return { summary: `Restored location ${before.name}`, warnings };
+    }
+
+    case "location.delete": {
+      const before = entry.before as HomeBoxLocation;
+      const parentId = before.parent?.id;
+      const created = await client.createLocation({
+        name: before.name,
+        description: before.description,
+        parentId: parentId ? currentId(context.replacements, parentId) : undefined,
+      });
+      if (before.itemCount) {
+        warnings.push(`${before.itemCount} items that were in ${before.name} are not moved back`);
+      }
+      return {
+        summary: `Re-created location ${before.name} (new ID: ${created.id})`,
+        replacementId: created.id,
+        warnings,
+      };
+    }
+
+    case "label.create": {
+      try {
+        await client.deleteLabel(id);
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+        return { summary: `Label ${name} was already deleted`, warnings };
+      }
+      return { summary: `Deleted label ${name}`, warnings };
+    }
+
+    case "label.update": {
+      const before = entry.before as HomeBoxLabel;
+      await client.updateLabel(id, {
+        name: before.name,
+        description: before.description ?? "",
+        color: before.color ?? "",
+      });
+      return { summary: `Restored label ${before.name}`, warnings };
+    }
+
+    case "label.delete": {
+      const before = entry.before as HomeBoxLabel;
+      const created = await client.createLabel({
+        name: before.name,
+        description: before.description,
+        color: before.color,
+      });
+      warnings.push(`Items that carried ${before.name} need it re-applied`);
+      return {
+        summary: `Re-created label ${before.name} (new ID: ${created.id})`,
+        replacementId: created.id,
+        warnings,
+      };
+    }
+
+    case "import.run": {
+      const manifest = await readImportManifest(context.importsDir, id);
+      if (manifest.rolledBackAt) {
+        return { summary: `Import ${id} was already rolled back`, warnings };
+      }
+      const result = await rollbackImport(client, context.importsDir, id);
+      if (result.failed.length > 0) {
+        throw new Error(
+          `Import ${id} was only partly rolled back; could not remove ${result.failed.join("; ")}. Undo again to retry`
+        );
+      }
+      return {
+        summary: `Rolled back import ${id} (${result.deletedItems} items deleted)`,
+        warnings,
+      };
+    }
+
+    case "undo":
+      throw new Error("Undo entries cannot themselves be undone; redo the change instead");
+  }
+}
+
+/**
+ * One-line description of an entry for the history listing
+ */
+export function describeEntry(entry: JournalEntry): string {
+  const name = entry.target.name ?? entry.target.id;
+  switch (entry.operation) {
+    case "item.update": {
+      const fields = diffItems(entry.before as HomeBoxItem, entry.after as HomeBoxItem)
+        .filter((change) => change.before !== undefined)
+        .map((change) => change.field);
+      return `updated ${name} (${fields.join(", ") || "custom fields"})`;
+    }
+    case "item.adjust": {
+      const before = (entry.before as { quantity: number }).quantity;
+      const after = (entry.after as { quantity: number }).quantity;
+      return `quantity of ${name}: ${before} → ${after}`;
+    }
+    case "undo":
+      return `undid ${entry.undoOf}: ${name}`;
+    default: {
+      const [kind, action] = entry.operation.split(".");
+      const verbs: Record<string, string> = {
+        create: "created",
+        update: "updated",
+        delete: "deleted",
+        add: "added",
+        run: "ran",
+      };
+      return `${verbs[action] ?? action} ${kind} ${name}`;
+    }
+  }
+}
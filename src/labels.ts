@@ -0,0 +1,367 @@
+/**
+ * Printable QR Labels
+ *
+ * Lays out one label per location or item (QR code on the left, name, path
+ * and ID on the right) on common label stock and renders the sheets as SVG
+ * or PDF. Both are written by hand, so nothing needs to be installed or
+ * fetched; PDF text uses the standard Helvetica fonts every viewer has.
+ */
+
+import { encodeQr } from "./qrcode.js";
+
+export interface LabelLayout {
+  description: string;
+  /** All sizes in millimetres */
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginLeft: number;
+  marginTop: number;
+  /** Space between labels */
+  gapX: number;
+  gapY: number;
+}
+
+export const LABEL_LAYOUTS: Record<string, LabelLayout> = {
+  "avery-5160": {
+    description: 'Avery 5160 / 8160 address labels, 30 per US Letter sheet (2⅝" × 1")',
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.675,
+    labelHeight: 25.4,
+    marginLeft: 4.7625,
+    marginTop: 12.7,
+    gapX: 3.175,
+    gapY: 0,
+  },
+  "avery-l7160": {
+    description: "Avery L7160 address labels, 21 per A4 sheet (63.5 × 38.1 mm)",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginLeft: 7.2,
+    marginTop: 15.15,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  "thermal-40x30": {
+    description: "40 × 30 mm thermal labels, one per page",
+    pageWidth: 40,
+    pageHeight: 30,
+    columns: 1,
+    rows: 1,
+    labelWidth: 40,
+    labelHeight: 30,
+    marginLeft: 0,
+    marginTop: 0,
+    gapX: 0,
+    gapY: 0,
+  },
+  "thermal-50x25": {
+    description: "50 × 25 mm thermal labels, one per page",
+    pageWidth: 50,
+    pageHeight: 25,
+    columns: 1,
+    rows: 1,
+    labelWidth: 50,
+    labelHeight: 25,
+    marginLeft: 0,
+    marginTop: 0,
+    gapX: 0,
+    gapY: 0,
+  },
+};
+
+export const DEFAULT_LABEL_LAYOUT = "avery-5160";
+
+export type LabelFileFormat = "svg" | "pdf";
+
+export interface Label {
+  /** What the QR code encodes */
+  data: string;
+  title: string;
+  /** Shown under the title, e.g. the location path */
+  subtitle?: string;
+  /** Small print at the bottom, e.g. the asset ID */
+  footer?: string;
+}
+
+/**
+ * Stable identifier for a location or item, independent of where HomeBox is
+ * hosted, e.g. "hoard://default/item/8a1f..."
+ */
+export function hoardUri(instance: string, type: "item" | "location", id: string): string {
+  return `hoard://${encodeURIComponent(instance)}/${type}/${id}`;
+}
+
+/** HomeBox asset IDs are numbers shown as "000-042"; 0 (or none) means unassigned */
+export function parseAssetId(value: string | undefined): number {
+  const digits = (value ?? "").replace(/\D/g, "");
+  return digits ? parseInt(digits, 10) : 0;
+}
+
+export function formatAssetId(value: number): string {
+  const digits = String(value).padStart(6, "0");
+  return `${digits.slice(0, -3)}-${digits.slice(-3)}`;
+}
+
+// Quiet zone around the QR code, in modules (the standard asks for 4; 2 scans fine on labels)
+const QUIET_ZONE = 2;
+// Rough Helvetica advance width per character, as a fraction of the font size
+const CHAR_WIDTH = 0.55;
+const LINE_HEIGHT = 1.2;
+
+interface TextLine {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  bold: boolean;
+}
+
+interface PlacedLabel {
+  /** Dark QR modules as runs: [x, y, width] in mm, each one module tall */
+  runs: [number, number, number][];
+  module: number;
+  lines: TextLine[];
+}
+
+/**
+ * Split `text` into at most `maxLines` lines of about `width` mm, cutting
+ * the last one short with an ellipsis if it doesn't fit
+ */
+function wrapText(text: string, size: number, width: number, maxLines: number): string[] {
+  const perLine = Math.max(Math.floor(width / (size * CHAR_WIDTH)), 4);
+  const lines: string[] = [];
+  let rest = text.trim();
+  while (rest && lines.length < maxLines) {
+    if (rest.length <= perLine) {
+      lines.push(rest);
+      rest = "";
+      break;
+    }
+    let cut = rest.lastIndexOf(" ", perLine);
+    if (cut <= 0) cut = perLine;
+    lines.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+  if (rest) {
+    const last = lines[lines.length - 1];
+    lines[lines.length - 1] = `${last.slice(0, Math.max(perLine - 1, 1)).trimEnd()}…`;
+  }
+  return lines;
+}
+
+/** A label's QR modules and text, positioned relative to its top-left corner */
+function placeLabel(label: Label, layout: LabelLayout): PlacedLabel {
+  const padding = Math.min(layout.labelHeight, layout.labelWidth) * 0.06;
+  const qr = encodeQr(label.data);
+  const qrSize = Math.min(layout.labelHeight - padding * 2, layout.labelWidth * 0.5);
+  const module = qrSize / (qr.size + QUIET_ZONE * 2);
+  const qrTop = (layout.labelHeight - qrSize) / 2;
+
+  const runs: [number, number, number][] = [];
+  qr.modules.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (!row[x]) continue;
+      let end = x;
+      while (end + 1 < row.length && row[end + 1]) end++;
+      runs.push([
+        padding + (x + QUIET_ZONE) * module,
+        qrTop + (y + QUIET_ZONE) * module,
+        (end - x + 1) * module,
+      ]);
+      x = end;
+    }
+  });
+
+  const textX = padding + qrSize + padding * 0.5;
+  const textWidth = layout.labelWidth - textX - padding;
+  const titleSize = Math.min(
+    Math.max(Math.min(layout.labelHeight * 0.13, textWidth * 0.16), 2),
+    3.5
+  );
+  const smallSize = titleSize * 0.75;
+  const lines: TextLine[] = [];
+  let y = padding + titleSize;
+  const add = (text: string, size: number, bold: boolean) => {
+    lines.push({ text, x: textX, y, size, bold });
+    y += size * LINE_HEIGHT;
+  };
+  for (const line of wrapText(label.title, titleSize, textWidth, 3)) add(line, titleSize, true);
+  y += smallSize * 0.3;
+  if (label.subtitle) {
+    for (const line of wrapText(label.subtitle, smallSize, textWidth, 2)) {
+      add(line, smallSize, false);
+    }
+  }
+  if (label.footer) {
+    lines.push({
+      text: wrapText(label.footer, smallSize, textWidth, 1)[0],
+      x: textX,
+      y: Math.max(layout.labelHeight - padding, y),
+      size: smallSize,
+      bold: false,
+    });
+  }
+  return { runs, module, lines };
+}
+
+/**
+ * Labels grouped into pages, each with its top-left corner on the page.
+ * `skip` leaves that many positions empty on the first page, for a partly
+ * used sheet.
+ */
+function paginate(
+  labels: Label[],
+  layout: LabelLayout,
+  skip: number
+): { label: PlacedLabel; x: number; y: number }[][] {
+  const perPage = layout.columns * layout.rows;
+  const pages: { label: PlacedLabel; x: number; y: number }[][] = [];
+  labels.forEach((label, index) => {
+    const position = index + skip;
+    const page = Math.floor(position / perPage);
+    const slot = position % perPage;
+    const column = slot % layout.columns;
+    const row = Math.floor(slot / layout.columns);
+    while (pages.length <= page) pages.push([]);
+    pages[page].push({
+      label: placeLabel(label, layout),
+      x: layout.marginLeft + column * (layout.labelWidth + layout.gapX),
+      y: layout.marginTop + row * (layout.labelHeight + layout.gapY),
+    });
+  });
+  return pages;
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * One SVG document per page (SVG has no pages); sizes are in mm so the
+ * sheet prints at its real size
+ */
+export function renderLabelsSvg(labels: Label[], layout: LabelLayout, skip = 0): string[] {
+  return paginate(labels, layout, skip).map((page) => {
+    const parts = page.map(({ label, x, y }) => {
+      const path = label.runs
+        .map(
+          ([rx, ry, width]) =>
+            `M${round(x + rx)} ${round(y + ry)}h${round(width)}v${round(label.module)}h${round(-width)}z`
+        )
+        .join("");
+      const text = label.lines.map(
+        (line) =>
+          `<text x="${round(x + line.x)}" y="${round(y + line.y)}" font-size="${round(line.size)}"${line.bold ? ' font-weight="bold"' : ""}>${escapeXml(line.text)}</text>`
+      );
+      return `<g>\n<path d="${path}"/>\n${text.join("\n")}\n</g>`;
+    });
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.pageWidth}mm" height="${layout.pageHeight}mm" viewBox="0 0 ${layout.pageWidth} ${layout.pageHeight}" font-family="Helvetica, Arial, sans-serif">`,
+      ...parts,
+      `</svg>`,
+      "",
+    ].join("\n");
+  });
+}
+
+// WinAnsiEncoding bytes for the characters outside Latin-1 that labels are likely to use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‹": 0x8b,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+  "›": 0x9b,
+};
+
+/** A PDF string literal in WinAnsiEncoding; characters it lacks become "?" */
+function pdfString(text: string): string {
+  let result = "(";
+  for (const char of text) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.codePointAt(0)!;
+    if (char === "(" || char === ")" || char === "\\") result += `\\${char}`;
+    else if (code >= 0x20 && code < 0x7f) result += char;
+    else if (code <= 0xff && (code >= 0xa0 || WIN_ANSI_EXTRAS[char])) {
+      result += `\\${code.toString(8).padStart(3, "0")}`;
+    } else result += "?";
+  }
+  return `${result})`;
+}
+
+/**
+ * A multi-page PDF: QR modules as filled rectangles, text in Helvetica.
+ * Non-ASCII text is escaped, so the result is plain ASCII.
+ */
+export function renderLabelsPdf(labels: Label[], layout: LabelLayout, skip = 0): string {
+  const pt = (mm: number) => round((mm * 72) / 25.4);
+  const pages = paginate(labels, layout, skip);
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body) + 2; // object 1 is the catalog, 2 the page tree
+
+  const font = (name: string) =>
+    add(`<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`);
+  const regular = font("Helvetica");
+  const bold = font("Helvetica-Bold");
+  const pageIds = pages.map((page) => {
+    const commands: string[] = [];
+    for (const { label, x, y } of page) {
+      for (const [rx, ry, width] of label.runs) {
+        commands.push(
+          `${pt(x + rx)} ${pt(layout.pageHeight - y - ry - label.module)} ${pt(width)} ${pt(label.module)} re`
+        );
+      }
+      commands.push("f");
+      for (const line of label.lines) {
+        commands.push(
+          `BT /${line.bold ? "F2" : "F1"} ${pt(line.size)} Tf ${pt(x + line.x)} ${pt(layout.pageHeight - y - line.y)} Td ${pdfString(line.text)} Tj ET`
+        );
+      }
+    }
+    const stream = commands.join("\n");
+    const content = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pt(layout.pageWidth)} ${pt(layout.pageHeight)}] /Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${content} 0 R >>`
+    );
+  });
+
+  const bodies = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+    ...objects,
+  ];
+  let pdf = "%PDF-1.4\n";
+  const offsets = bodies.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${bodies.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${bodies.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
@@ -0,0 +1,144 @@
+/**
+ * Lending Tracker
+ *
+ * A borrowed item is moved to a top-level "On loan" location and carries
+ * "Loaned To" / "Loaned On" / "Loan Due" / "Loaned From" custom fields, so
+ * the HomeBox UI shows who has it. The fields are the current state; a
+ * plugin-local ledger keeps every loan (with the exact location ID the item
+ * came from) and when it was returned.
+ */
+
+import type { HomeBoxCustomField, HomeBoxItem } from "./client.js";
+import { daysUntil } from "./expiry.js";
+import { readJsonFile, updateJsonFile } from "./storage.js";
+
+export const ON_LOAN_LOCATION = "On loan";
+
+export const LOANED_TO_FIELD = "Loaned To";
+export const LOANED_ON_FIELD = "Loaned On";
+export const LOAN_DUE_FIELD = "Loan Due";
+export const LOANED_FROM_FIELD = "Loaned From";
+
+// Returned loans kept in the ledger, oldest dropped first
+const MAX_RETURNED = 500;
+
+export interface Loan {
+  itemId: string;
+  itemName: string;
+  borrower: string;
+  /** YYYY-MM-DD */
+  loanedOn: string;
+  /** YYYY-MM-DD; loans without one are never overdue */
+  dueOn?: string;
+  /** Where the item goes back to on check-in */
+  fromLocationId?: string;
+  fromLocationPath: string;
+  note?: string;
+  /** ISO timestamp, once checked in */
+  returnedAt?: string;
+}
+
+interface LedgerFile {
+  loans: Loan[];
+}
+
+function fieldKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function textField(item: HomeBoxItem, name: string): string | undefined {
+  const field = item.fields?.find((candidate) => fieldKey(candidate.name) === fieldKey(name));
+  return field?.textValue?.trim() || undefined;
+}
+
+/**
+ * The item's current loan as recorded in its custom fields, if it is on
+ * loan. Needs the full item (summaries from search don't include custom
+ * fields).
+ */
+export function itemLoan(item: HomeBoxItem): Loan | undefined {
+  const borrower = textField(item, LOANED_TO_FIELD);
+  if (!borrower) return undefined;
+  return {
+    itemId: item.id ?? "",
+    itemName: item.name,
+    borrower,
+    loanedOn: textField(item, LOANED_ON_FIELD) ?? "",
+    dueOn: textField(item, LOAN_DUE_FIELD),
+    fromLocationPath: textField(item, LOANED_FROM_FIELD) ?? "",
+  };
+}
+
+/**
+ * The item's custom fields with its loan replaced (or removed when `loan`
+ * is null), ready to send as `fields` in an update
+ */
+export function withItemLoan(item: HomeBoxItem, loan: Loan | null): HomeBoxCustomField[] {
+  const managed = [LOANED_TO_FIELD, LOANED_ON_FIELD, LOAN_DUE_FIELD, LOANED_FROM_FIELD].map(
+    fieldKey
+  );
+  const fields = (item.fields ?? []).filter((field) => !managed.includes(fieldKey(field.name)));
+  if (loan) {
+    fields.push({ name: LOANED_TO_FIELD, type: "text", textValue: loan.borrower });
+    fields.push({ name: LOANED_ON_FIELD, type: "text", textValue: loan.loanedOn });
+    if (loan.dueOn) fields.push({ name: LOAN_DUE_FIELD, type: "text", textValue: loan.dueOn });
+    fields.push({ name: LOANED_FROM_FIELD, type: "text", textValue: loan.fromLocationPath });
+  }
+  return fields;
+}
+
+/**
+ * Days past the due date (0 or less while not yet overdue, undefined
+ * without a due date)
+ */
+export function daysOverdue(loan: Loan, today: Date = new Date()): number | undefined {
+  return loan.dueOn ? -daysUntil(loan.dueOn, today) : undefined;
+}
+
+export class LoanLedger {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async loans(): Promise<Loan[]> {
+    const data = await readJsonFile<LedgerFile>(this.filePath, { loans: [] });
+    return data.loans ?? [];
+  }
+
+  /** The item's open loan, if the ledger has one */
+  async openLoan(itemId: string): Promise<Loan | undefined> {
+    return (await this.loans()).find((loan) => loan.itemId === itemId && !loan.returnedAt);
+  }
+
+  /**
+   * Record a new loan. An open loan left behind for the same item (e.g. a
+   * checkout that was undone) is dropped.
+   */
+  async checkOut(loan: Loan): Promise<void> {
+    await updateJsonFile<LedgerFile>(this.filePath, { loans: [] }, (data) => {
+      const loans = (data.loans ?? []).filter(
+        (existing) => existing.itemId !== loan.itemId || existing.returnedAt
+      );
+      loans.push(loan);
+      return { loans };
+    });
+  }
+
+  /** Mark the item's open loan returned, if there is one */
+  async checkIn(itemId: string, returnedAt: string): Promise<void> {
+    await updateJsonFile<LedgerFile>(this.filePath, { loans: [] }, (data) => {
+      let loans = data.loans ?? [];
+      const open = loans.find((loan) => loan.itemId === itemId && !loan.returnedAt);
+      if (!open) return data;
+      open.returnedAt = returnedAt;
+      const returned = loans.filter((loan) => loan.returnedAt);
+      if (returned.length > MAX_RETURNED) {
+        const dropped = new Set(returned.slice(0, returned.length - MAX_RETURNED));
+        loans = loans.filter((loan) => !dropped.has(loan));
+      }
+      return { loans };
+    });
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Location Hierarchy
+ *
+ * HomeBox locations nest (Garage › Shelf 3 › Bin 2). This models the tree so
+ * tools can print full paths, render an indented outline and reject moves that
+ * would create a parent cycle.
+ */
+
+import type { HomeBoxLocation, HomeBoxLocationTreeNode } from "./client.js";
+
+export const PATH_SEPARATOR = " › ";
+
+// Accepted between segments of a location path typed by a user or agent
+const PATH_INPUT_SEPARATOR = /\s*(?:\/|›|>|\\)\s*/;
+
+/** Case- and whitespace-insensitive form of a location name */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/** Looser form that also ignores punctuation and spacing ("Shelf-3" = "shelf3") */
+function compactName(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+/**
+ * Split "Garage/Shelf 3" (or "Garage › Shelf 3") into its segments
+ */
+export function splitLocationPath(reference: string): string[] {
+  return reference
+    .split(PATH_INPUT_SEPARATOR)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+}
+
+/** The numbers in a name, in order ("Shelf 3 Bin 12" → "3,12") */
+function numberParts(name: string): string {
+  return (name.match(/\p{N}+/gu) ?? []).join(",");
+}
+
+/**
+ * One inserted, deleted or changed letter apart. Names whose numbers differ
+ * ("Bin 2" and "Bin 7") are different locations, not typos.
+ */
+function withinOneTypo(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1 || a.length < 4) return false;
+  if (numberParts(a) !== numberParts(b)) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+export type LocationMatch =
+  | { status: "found"; id: string }
+  | { status: "ambiguous"; ids: string[] }
+  | {
+      status: "missing";
+      /** Locations one typo away, for a "did you mean" */
+      suggestions: string[];
+    };
+
+interface LocationNode {
+  id: string;
+  name: string;
+  parentId?: string;
+  childIds: string[];
+  itemCount?: number;
+}
+
+export class LocationTree {
+  private nodes = new Map<string, LocationNode>();
+  private rootIds: string[] = [];
+
+  /**
+   * @param tree  Nested locations from /api/v1/locations/tree
+   * @param flat  Flat list from /api/v1/locations, used for item counts and
+   *              for locations missing from the tree
+   */
+  constructor(tree: HomeBoxLocationTreeNode[], flat: HomeBoxLocation[] = []) {
+    const visit = (node: HomeBoxLocationTreeNode, parentId?: string) => {
+      // The tree endpoint can include items when asked; only keep locations
+      if (node.type && node.type !== "location") return;
+      this.nodes.set(node.id, { id: node.id, name: node.name, parentId, childIds: [] });
+      if (parentId) this.nodes.get(parentId)!.childIds.push(node.id);
+      else this.rootIds.push(node.id);
+      for (const child of node.children ?? []) visit(child, node.id);
+    };
+    tree.forEach((node) => visit(node));
+
+    for (const location of flat) {
+      const node = this.nodes.get(location.id);
+      if (node) {
+        node.itemCount = location.itemCount;
+      } else {
+        this.nodes.set(location.id, {
+          id: location.id,
+          name: location.name,
+          childIds: [],
+          itemCount: location.itemCount,
+        });
+        this.rootIds.push(location.id);
+      }
+    }
+  }
+
+  has(locationId: string): boolean {
+    return this.nodes.has(locationId);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  name(locationId: string): string | undefined {
+    return this.nodes.get(locationId)?.name;
+  }
+
+  parentId(locationId: string): string | undefined {
+    return this.nodes.get(locationId)?.parentId;
+  }
+
+  childIds(locationId: string): string[] {
+    return [...(this.nodes.get(locationId)?.childIds ?? [])];
+  }
+
+  /** Root-first list of names, e.g. ["Garage", "Shelf 3", "Bin 2"] */
+  pathSegments(locationId: string): string[] {
+    const segments: string[] = [];
+    const seen = new Set<string>();
+    let current = this.nodes.get(locationId);
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      segments.unshift(current.name);
+      current = current.parentId ? this.nodes.get(current.parentId) : undefined;
+    }
+    return segments;
+  }
+
+  /** "Garage › Shelf 3 › Bin 2", or undefined for an unknown ID */
+  path(locationId: string | undefined): string | undefined {
+    if (!locationId || !this.nodes.has(locationId)) return undefined;
+    return this.pathSegments(locationId).join(PATH_SEPARATOR);
+  }
+
+  /** IDs of every location nested anywhere beneath `locationId` */
+  descendantIds(locationId: string): string[] {
+    const result: string[] = [];
+    const stack = this.childIds(locationId);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      result.push(id);
+      stack.push(...this.childIds(id));
+    }
+    return result;
+  }
+
+  /** Items directly in a location plus everything nested under it */
+  totalItemCount(locationId: string): number {
+    return [locationId, ...this.descendantIds(locationId)].reduce(
+      (sum, id) => sum + (this.nodes.get(id)?.itemCount ?? 0),
+      0
+    );
+  }
+
+  /**
+   * True if making `newParentId` the parent of `locationId` would put the
+   * location inside itself
+   */
+  wouldCreateCycle(locationId: string, newParentId: string): boolean {
+    return newParentId === locationId || this.descendantIds(locationId).includes(newParentId);
+  }
+
+  /** Every location ID, parents before children */
+  allIds(): string[] {
+    const result: string[] = [];
+    const visit = (id: string) => {
+      result.push(id);
+      this.childIds(id).forEach(visit);
+    };
+    this.rootIds.forEach(visit);
+    return result;
+  }
+
+  /**
+   * Find the location a reference points to. Accepts an ID, a name, or a
+   * path ("Garage/Shelf 3"); a path may start at any level as long as its
+   * segments are consecutive ancestors. Names are compared ignoring case and
+   * whitespace, then ignoring punctuation; the first of those passes that
+   * matches anything decides the result. Names one typo away are never a
+   * match, only suggestions on a miss.
+   */
+  resolve(reference: string): LocationMatch {
+    const trimmed = reference.trim();
+    if (this.nodes.has(trimmed)) return { status: "found", id: trimmed };
+
+    // A name that itself contains a separator ("Nuts/Bolts") wins over a path
+    const whole = [...this.nodes.values()].filter(
+      (node) => normalizeName(node.name) === normalizeName(trimmed)
+    );
+    if (whole.length === 1) return { status: "found", id: whole[0].id };
+
+    const segments = splitLocationPath(trimmed);
+    if (segments.length === 0) return { status: "missing", suggestions: [] };
+
+    const passes: ((name: string, segment: string) => boolean)[] = [
+      (name, segment) => normalizeName(name) === normalizeName(segment),
+      (name, segment) => compactName(name) === compactName(segment),
+    ];
+
+    for (const matches of passes) {
+      const ids = this.matchingIds(segments, matches);
+      if (ids.length === 1) return { status: "found", id: ids[0] };
+      if (ids.length > 1) return { status: "ambiguous", ids };
+    }
+    const suggestions = this.matchingIds(segments, (name, segment) => {
+      const [left, right] = [compactName(name), compactName(segment)];
+      return left === right || withinOneTypo(left, right);
+    });
+    return { status: "missing", suggestions };
+  }
+
+  private matchingIds(
+    segments: string[],
+    matches: (name: string, segment: string) => boolean
+  ): string[] {
+    return [...this.nodes.values()]
+      .filter((node) => this.matchesPath(node, segments, matches))
+      .map((node) => node.id);
+  }
+
+  /** Does `node` end the path `segments`, walking up through its ancestors? */
+  private matchesPath(
+    node: LocationNode,
+    segments: string[],
+    matches: (name: string, segment: string) => boolean
+  ): boolean {
+    let current: LocationNode | undefined = node;
+    for (let i = segments.length - 1; i >= 0; i--) {
+      if (!current || !matches(current.name, segments[i])) return false;
+      current = current.parentId ? this.nodes.get(current.parentId) : undefined;
+    }
+    return true;
+  }
+
+  /**
+   * Indented outline with item counts and IDs:
+   *
+   *   • Garage (2 items, 14 total) (id1)
+   *     • Shelf 3 (12 items) (id2)
+   */
+  render(): string {
+    const lines: string[] = [];
+    const visit = (id: string, depth: number) => {
+      const node = this.nodes.get(id)!;
+      const direct = node.itemCount ?? 0;
+      const total = this.totalItemCount(id);
+      const counts =
+        node.itemCount === undefined
+          ? ""
+          : total !== direct
+            ? ` (${direct} ${direct === 1 ? "item" : "items"}, ${total} total)`
+            : ` (${direct} ${direct === 1 ? "item" : "items"})`;
+      lines.push(`${"  ".repeat(depth)}• ${node.name}${counts} (${node.id})`);
+      node.childIds.forEach((childId) => visit(childId, depth + 1));
+    };
+    this.rootIds.forEach((id) => visit(id, 0));
+    return lines.join("\n");
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * QR Code Encoder
+ *
+ * A small offline encoder for printed labels: byte mode, error correction
+ * level M (about 15% of the code can be damaged), versions 1–20, which fits
+ * up to 666 bytes — far more than an item link needs. Follows ISO/IEC 18004;
+ * no network service or external library is involved.
+ */
+
+const MAX_VERSION = 20;
+
+// Level M, indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+];
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+];
+// Level M's two format bits
+const ECC_LEVEL_BITS = 0;
+
+/** A square grid of modules; `true` is dark */
+export interface QrCode {
+  version: number;
+  size: number;
+  modules: boolean[][];
+}
+
+/**
+ * Encode `text` (as UTF-8) into a QR code, picking the smallest version that
+ * fits and the mask with the lowest penalty. `mask` forces a mask (0–7).
+ */
+export function encodeQr(text: string, options: { mask?: number } = {}): QrCode {
+  const data = [...Buffer.from(text, "utf8")];
+  let version = 1;
+  for (; version <= MAX_VERSION; version++) {
+    const countBits = version < 10 ? 8 : 16;
+    if (4 + countBits + data.length * 8 <= dataCodewords(version) * 8) break;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`Too much data for a QR code label (${data.length} bytes)`);
+  }
+
+  // Mode indicator, length, data, terminator, then pad to the capacity
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(data.length, version < 10 ? 8 : 16);
+  for (const byte of data) push(byte, 8);
+  const capacityBits = dataCodewords(version) * 8;
+  push(0, Math.min(4, capacityBits - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) push(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawCodewords(addEccAndInterleave(codewords, version));
+
+  let mask = options.mask;
+  if (mask === undefined) {
+    let lowest = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      matrix.applyMask(candidate);
+      matrix.drawFormatBits(candidate);
+      const penalty = matrix.penalty();
+      if (penalty < lowest) {
+        lowest = penalty;
+        mask = candidate;
+      }
+      matrix.applyMask(candidate); // XOR again to undo
+    }
+  }
+  matrix.applyMask(mask!);
+  matrix.drawFormatBits(mask!);
+  return { version, size: matrix.size, modules: matrix.modules };
+}
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version]
+  );
+}
+
+function alignmentPositions(version: number, size: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = size - 7; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+/**
+ * Split the data into blocks, append each block's Reed–Solomon codewords
+ * and interleave them as the standard requires
+ */
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a placeholder where long blocks have one more data byte
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => (result[i] ^= gfMultiply(coefficient, factor)));
+  }
+  return result;
+}
+
+function emptyGrid(size: number): boolean[][] {
+  return Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  /** Finder, timing, alignment, format and version modules, which masks skip */
+  private reserved: boolean[][];
+  private version: number;
+
+  constructor(version: number) {
+    this.version = version;
+    this.size = version * 4 + 17;
+    this.modules = emptyGrid(this.size);
+    this.reserved = emptyGrid(this.size);
+    this.drawFunctionPatterns();
+  }
+
+  private set(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    const size = this.size;
+    for (let i = 0; i < size; i++) {
+      this.set(6, i, i % 2 === 0);
+      this.set(i, 6, i % 2 === 0);
+    }
+    for (const [x, y] of [
+      [3, 3],
+      [size - 4, 3],
+      [3, size - 4],
+    ]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          const xx = x + dx;
+          const yy = y + dy;
+          if (xx >= 0 && xx < size && yy >= 0 && yy < size) {
+            this.set(xx, yy, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+    const positions = alignmentPositions(this.version, size);
+    const last = positions.length - 1;
+    positions.forEach((x, i) =>
+      positions.forEach((y, j) => {
+        // The three corners are taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.set(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      })
+    );
+    // Reserve the format areas now; drawFormatBits fills them once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersionBits();
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (ECC_LEVEL_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+    const size = this.size;
+
+    for (let i = 0; i <= 5; i++) this.set(8, i, bit(i));
+    this.set(8, 7, bit(6));
+    this.set(8, 8, bit(7));
+    this.set(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, bit(i));
+    this.set(8, size - 8, true);
+  }
+
+  private drawVersionBits(): void {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.set(a, b, dark);
+      this.set(b, a, dark);
+    }
+  }
+
+  /** Fill the non-function modules in the standard zigzag, two columns at a time */
+  drawCodewords(codewords: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.reserved[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    const conditions: ((x: number, y: number) => boolean)[] = [
+      (x, y) => (x + y) % 2 === 0,
+      (_x, y) => y % 2 === 0,
+      (x) => x % 3 === 0,
+      (x, y) => (x + y) % 3 === 0,
+      (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+      (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+      (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+      (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+    ];
+    const invert = conditions[mask];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && invert(x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  /** The standard's four penalty rules; the mask with the lowest score is used */
+  penalty(): number {
+    const size = this.size;
+    const lines = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map((row) => row[x])),
+    ];
+    let result = 0;
+
+    for (const line of lines) {
+      // Runs of five or more modules of one color
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+        } else {
+          if (run >= 5) result += run - 2;
+          run = 1;
+        }
+      }
+      // Patterns that look like a finder (1:1:3:1:1 with four light modules on one side)
+      const text = line.map((dark) => (dark ? "1" : "0")).join("");
+      for (const pattern of ["10111010000", "00001011101"]) {
+        for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) {
+          result += 40;
+        }
+      }
+    }
+
+    let dark = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (this.modules[y][x]) dark++;
+        if (
+          x < size - 1 &&
+          y < size - 1 &&
+          this.modules[y][x] === this.modules[y][x + 1] &&
+          this.modules[y][x] === this.modules[y + 1][x] &&
+          this.modules[y][x] === this.modules[y + 1][x + 1]
+        ) {
+          result += 3;
+        }
+      }
+    }
+    // Deviation from half dark, in 5% steps
+    result += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+    return result;
+  }
+}
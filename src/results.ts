@@ -0,0 +1,198 @@
+/**
+ * Structured Tool Results
+ *
+ * Besides the human-readable text, every tool returns a JSON payload in a
+ * stable, versioned shape so other agents and scripts can chain calls
+ * without parsing the text. Bump RESULT_SCHEMA_VERSION on any breaking
+ * change to these types; adding optional fields is not breaking.
+ */
+
+import type { HomeBoxItem, HomeBoxLabel } from "./client.js";
+import type { LocationTree } from "./locations.js";
+
+export const RESULT_SCHEMA_VERSION = 1;
+
+/**
+ * How a tool's result is rendered for the caller: the full text (default),
+ * a short summary with one line per item/location/label, or the JSON payload
+ */
+export type OutputFormat = "verbose" | "compact" | "json";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["verbose", "compact", "json"];
+
+export interface ItemPayload {
+  id: string;
+  name: string;
+  quantity: number;
+  archived: boolean;
+  locationId?: string;
+  /** Full path, e.g. "Garage › Shelf 3 › Bin 2" */
+  locationPath?: string;
+  labels: { id: string; name: string }[];
+  description?: string;
+  /** Set on results that span several HomeBox instances */
+  instance?: string;
+}
+
+export interface LocationPayload {
+  id: string;
+  name: string;
+  path: string;
+  parentId?: string;
+  /** Items in this location and everything nested in it */
+  totalItemCount?: number;
+}
+
+export interface LabelPayload {
+  id: string;
+  name: string;
+  description?: string;
+  color?: string;
+}
+
+export interface ToolResultPayload {
+  schemaVersion: typeof RESULT_SCHEMA_VERSION;
+  tool: string;
+  /** The HomeBox instance the call ran against */
+  instance?: string;
+  ok: boolean;
+  /** One line describing the outcome */
+  summary: string;
+  /** Why the call failed, when ok is false */
+  error?: string;
+  items?: ItemPayload[];
+  locations?: LocationPayload[];
+  labels?: LabelPayload[];
+  warnings: string[];
+  /** Tool-specific values (totals, tokens, run IDs, ...) */
+  data?: Record<string, unknown>;
+}
+
+/** What a tool contributes to its payload; the rest is derived from its text */
+export type PayloadParts = Partial<Omit<ToolResultPayload, "schemaVersion" | "tool">>;
+
+export interface ToolResult {
+  content: { type: "text"; text: string }[];
+  payload?: PayloadParts;
+}
+
+export function itemPayload(tree: LocationTree, item: HomeBoxItem): ItemPayload {
+  const locationId = item.location?.id ?? item.locationId;
+  return {
+    id: item.id ?? "",
+    name: item.name,
+    quantity: item.quantity,
+    archived: item.archived ?? false,
+    locationId,
+    locationPath: tree.path(locationId) || item.location?.name,
+    labels: (item.labels ?? []).map((label) => ({ id: label.id, name: label.name })),
+    description: item.description || undefined,
+  };
+}
+
+export function locationPayload(tree: LocationTree, locationId: string): LocationPayload {
+  return {
+    id: locationId,
+    name: tree.name(locationId) ?? locationId,
+    path: tree.path(locationId) ?? tree.name(locationId) ?? locationId,
+    parentId: tree.parentId(locationId),
+    totalItemCount: tree.has(locationId) ? tree.totalItemCount(locationId) : undefined,
+  };
+}
+
+export function labelPayload(label: HomeBoxLabel): LabelPayload {
+  return {
+    id: label.id,
+    name: label.name,
+    description: label.description || undefined,
+    color: label.color || undefined,
+  };
+}
+
+const STATUS_PREFIX = /^\s*[✓✗⚠]\s*/;
+
+/**
+ * Fill in a tool's payload from its text: ok unless the text starts with ✗,
+ * the first line as summary, and every later ⚠ line as a warning
+ */
+export function buildPayload(
+  tool: string,
+  text: string,
+  parts: PayloadParts = {},
+  instance?: string
+): ToolResultPayload {
+  const lines = text.split("\n");
+  const ok = parts.ok ?? !text.trimStart().startsWith("✗");
+  const warnings = [
+    ...(parts.warnings ?? []),
+    ...lines
+      .slice(1)
+      .filter((line) => line.trimStart().startsWith("⚠"))
+      .map((line) => line.replace(STATUS_PREFIX, "")),
+  ];
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    tool,
+    instance: parts.instance ?? instance,
+    ...parts,
+    ok,
+    summary: parts.summary ?? lines[0].replace(STATUS_PREFIX, "").replace(/:$/, ""),
+    error: ok ? undefined : (parts.error ?? text.replace(STATUS_PREFIX, "")),
+    warnings,
+  };
+}
+
+/**
+ * Summary, one line per item/location/label, single-line data values and
+ * warnings. Tools without any of those keep their full text.
+ */
+export function compactText(payload: ToolResultPayload, verbose: string): string {
+  const listed = [
+    ...(payload.items ?? []).map(
+      (item) =>
+        `• ${item.instance ? `[${item.instance}] ` : ""}${item.name} ×${item.quantity} @ ${item.locationPath ?? "?"} (${item.id})`
+    ),
+    ...(payload.locations ?? []).map((location) => `• ${location.path} (${location.id})`),
+    ...(payload.labels ?? []).map((label) => `• ${label.name} (${label.id})`),
+  ];
+  const values = Object.entries(payload.data ?? {})
+    .filter(
+      ([, value]) =>
+        ["number", "boolean"].includes(typeof value) ||
+        (typeof value === "string" && !value.includes("\n"))
+    )
+    .map(([key, value]) => `${key}: ${value}`);
+  if (listed.length === 0 && values.length === 0) return verbose;
+
+  const status = payload.ok ? "✓" : "✗";
+  return [
+    `${status} ${payload.ok ? payload.summary : (payload.error ?? "").split("\n")[0]}`,
+    ...listed,
+    ...values,
+    ...payload.warnings.map((warning) => `⚠ ${warning}`),
+  ].join("\n");
+}
+
+/**
+ * The tool result handed back to the agent: text (or the JSON payload) as
+ * content, plus the payload as `details` in every format
+ */
+export function renderToolResult(
+  tool: string,
+  result: ToolResult,
+  format: OutputFormat = "verbose",
+  instance?: string
+): { content: { type: "text"; text: string }[]; details: ToolResultPayload } {
+  const text = result.content.map((block) => block.text).join("\n");
+  const payload = buildPayload(tool, text, result.payload, instance);
+  const rendered =
+    format === "json"
+      ? JSON.stringify(payload, null, 2)
+      : format === "compact"
+        ? compactText(payload, text)
+        : text;
+  return {
+    content: [{ type: "text", text: rendered }],
+    details: payload,
+  };
+}
@@ -0,0 +1,300 @@
+/**
+ * Local Fuzzy Search Index
+ *
+ * In-memory index over every item, built from a full sync and refreshed
+ * incrementally. Matching is token-order-insensitive and typo-tolerant and
+ * runs entirely offline (no embedding service).
+ */
+
+import type { HomeBoxClient, HomeBoxItem } from "./client.js";
+import { normalizeComponentText } from "./components.js";
+
+// How much a match in each field counts towards an item's score
+const FIELD_WEIGHTS = {
+  name: 3,
+  modelNumber: 2.5,
+  serialNumber: 2.5,
+  manufacturer: 1.5,
+  description: 1,
+  notes: 0.5,
+} as const;
+
+type IndexedField = keyof typeof FIELD_WEIGHTS;
+
+const INDEXED_FIELDS = Object.keys(FIELD_WEIGHTS) as IndexedField[];
+
+export const DEFAULT_SEARCH_INDEX_TTL_MS = 5 * 60 * 1000;
+
+// Fraction of query tokens an item must match to be returned at all
+const MIN_COVERAGE = 0.5;
+
+export type MatchKind = "exact" | "prefix" | "typo";
+
+export interface FuzzyMatchReason {
+  /** Query token as typed (normalized) */
+  queryToken: string;
+  field: IndexedField;
+  /** Token in the item that matched */
+  matched: string;
+  kind: MatchKind;
+}
+
+export interface FuzzySearchResult {
+  item: HomeBoxItem;
+  score: number;
+  reasons: FuzzyMatchReason[];
+}
+
+/**
+ * Lowercase and strip accents so "Résistor" and "resistor" compare equal
+ */
+export function normalizeText(text: string): string {
+  return text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/**
+ * Crude plural folding: "resistors" → "resistor", but not "brass" → "bras"
+ */
+function stem(token: string): string {
+  if (token.length > 3 && token.endsWith("s") && !token.endsWith("ss")) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+/**
+ * Split text into normalized word tokens. Decimal numbers ("0.1") stay whole
+ * and component values are spelled canonically ("10000 ohm" → "10kΩ").
+ */
+export function tokenize(text: string | undefined): string[] {
+  if (!text) return [];
+  const matches = normalizeText(normalizeComponentText(text)).match(/[\p{L}\p{N}]+(?:\.\p{N}+)?/gu) ?? [];
+  return matches.map(stem);
+}
+
+/**
+ * Levenshtein distance, giving up (returning max + 1) once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Typos tolerated for a query token of this length */
+function allowedTypos(length: number): number {
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+}
+
+export class ItemSearchIndex {
+  private client: HomeBoxClient;
+  private ttlMs: number;
+  private items = new Map<string, HomeBoxItem>();
+  private fieldTokens = new Map<string, Map<IndexedField, Set<string>>>();
+  // token → IDs of items containing it in any field
+  private postings = new Map<string, Set<string>>();
+  private lastSync = 0;
+  private syncPromise: Promise<void> | null = null;
+
+  constructor(client: HomeBoxClient, options: { ttlMs?: number } = {}) {
+    this.client = client;
+    this.ttlMs = options.ttlMs ?? DEFAULT_SEARCH_INDEX_TTL_MS;
+  }
+
+  get size(): number {
+    return this.items.size;
+  }
+
+  /**
+   * Sync with HomeBox if the index is older than `maxAgeMs` (default: its
+   * TTL). Concurrent callers share one sync.
+   */
+  async ensureFresh(maxAgeMs: number = this.ttlMs): Promise<void> {
+    if (this.lastSync && Date.now() - this.lastSync < maxAgeMs) return;
+    if (!this.syncPromise) {
+      this.syncPromise = this.sync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  /**
+   * Incremental sync: list item summaries, fetch full details only for items
+   * that are new or whose `updatedAt` changed, and drop items that are gone.
+   */
+  async sync(): Promise<void> {
+    const summaries = await this.client.getAllItems({ includeArchived: true });
+    const seen = new Set<string>();
+
+    const changed = summaries.filter((summary) => {
+      if (!summary.id) return false;
+      seen.add(summary.id);
+      const existing = this.items.get(summary.id);
+      return !existing || !summary.updatedAt || existing.updatedAt !== summary.updatedAt;
+    });
+
+    for (const id of [...this.items.keys()]) {
+      if (!seen.has(id)) this.remove(id);
+    }
+
+    const details = await this.client.getItemDetails(changed);
+    details.forEach((item) => this.upsert(item));
+
+    this.lastSync = Date.now();
+  }
+
+  /** Add or replace an item, e.g. right after a tool created or edited it */
+  upsert(item: HomeBoxItem): void {
+    if (!item.id) return;
+    this.remove(item.id);
+
+    const fields = new Map<IndexedField, Set<string>>();
+    for (const field of INDEXED_FIELDS) {
+      const tokens = new Set(tokenize(item[field]));
+      if (tokens.size === 0) continue;
+      fields.set(field, tokens);
+      for (const token of tokens) {
+        let ids = this.postings.get(token);
+        if (!ids) this.postings.set(token, (ids = new Set()));
+        ids.add(item.id);
+      }
+    }
+
+    this.items.set(item.id, item);
+    this.fieldTokens.set(item.id, fields);
+  }
+
+  /** Every indexed item, with full details */
+  allItems(): HomeBoxItem[] {
+    return [...this.items.values()];
+  }
+
+  /**
+   * Indexed items sharing at least one token with any of `texts`, as a
+   * shortlist for local matching. Call ensureFresh() first.
+   */
+  itemsSharingTokens(texts: (string | undefined)[]): HomeBoxItem[] {
+    const ids = new Set<string>();
+    for (const token of texts.flatMap((text) => tokenize(text))) {
+      this.postings.get(token)?.forEach((id) => ids.add(id));
+    }
+    return [...ids].map((id) => this.items.get(id)!);
+  }
+
+  remove(itemId: string): void {
+    const fields = this.fieldTokens.get(itemId);
+    if (fields) {
+      for (const tokens of fields.values()) {
+        for (const token of tokens) {
+          const ids = this.postings.get(token);
+          ids?.delete(itemId);
+          if (ids && ids.size === 0) this.postings.delete(token);
+        }
+      }
+    }
+    this.items.delete(itemId);
+    this.fieldTokens.delete(itemId);
+  }
+
+  /**
+   * Vocabulary tokens that match a query token, with a match quality in (0, 1]
+   */
+  private matchToken(queryToken: string): { token: string; kind: MatchKind; quality: number }[] {
+    const matches: { token: string; kind: MatchKind; quality: number }[] = [];
+    const maxTypos = allowedTypos(queryToken.length);
+
+    for (const token of this.postings.keys()) {
+      if (token === queryToken) {
+        matches.push({ token, kind: "exact", quality: 1 });
+      } else if (queryToken.length >= 3 && token.startsWith(queryToken)) {
+        matches.push({ token, kind: "prefix", quality: 0.8 });
+      } else if (maxTypos > 0) {
+        const distance = editDistance(queryToken, token, maxTypos);
+        if (distance <= maxTypos) {
+          matches.push({ token, kind: "typo", quality: 1 - 0.25 * distance });
+        }
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Rank items against a free-text query. Every query token is matched
+   * independently (so word order doesn't matter) and items must match at
+   * least half of them.
+   */
+  search(query: string): FuzzySearchResult[] {
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0) return [];
+
+    // item ID → best match per query token
+    const best = new Map<string, Map<string, { score: number; reason: FuzzyMatchReason }>>();
+
+    for (const queryToken of queryTokens) {
+      for (const { token, kind, quality } of this.matchToken(queryToken)) {
+        for (const itemId of this.postings.get(token) ?? []) {
+          const fields = this.fieldTokens.get(itemId)!;
+          for (const [field, tokens] of fields) {
+            if (!tokens.has(token)) continue;
+            const score = FIELD_WEIGHTS[field] * quality;
+
+            let perToken = best.get(itemId);
+            if (!perToken) best.set(itemId, (perToken = new Map()));
+            const current = perToken.get(queryToken);
+            if (!current || score > current.score) {
+              perToken.set(queryToken, {
+                score,
+                reason: { queryToken, field, matched: token, kind },
+              });
+            }
+          }
+        }
+      }
+    }
+
+    const results: FuzzySearchResult[] = [];
+    for (const [itemId, perToken] of best) {
+      const coverage = perToken.size / queryTokens.length;
+      if (coverage < MIN_COVERAGE) continue;
+
+      const matches = [...perToken.values()];
+      const raw = matches.reduce((sum, match) => sum + match.score, 0);
+      results.push({
+        item: this.items.get(itemId)!,
+        score: raw * coverage,
+        reasons: matches.map((match) => match.reason),
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+}
+
+/**
+ * One-line explanation of why an item matched, e.g.
+ * `"hamer" ≈ "hammer" (name, typo), "peen" in name`
+ */
+export function explainMatch(reasons: FuzzyMatchReason[]): string {
+  return reasons
+    .map((reason) =>
+      reason.kind === "exact"
+        ? `"${reason.queryToken}" in ${reason.field}`
+        : `"${reason.queryToken}" ≈ "${reason.matched}" (${reason.field}, ${reason.kind})`
+    )
+    .join(", ");
+}
@@ -0,0 +1,88 @@
+/**
+ * Plugin-local Storage
+ *
+ * Small JSON files kept next to the agent rather than in HomeBox, for data
+ * HomeBox has no place for (e.g. per-label stock thresholds)
+ */
+
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+
+export const DEFAULT_DATA_DIR = join(homedir(), ".openclaw", "hoard");
+
+// Tail of the pending write chain for each file, shared by every store
+const fileLocks = new Map<string, Promise<unknown>>();
+
+async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const key = resolve(path);
+  const previous = fileLocks.get(key) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  fileLocks.set(key, run);
+  try {
+    return await run;
+  } finally {
+    if (fileLocks.get(key) === run) fileLocks.delete(key);
+  }
+}
+
+/**
+ * Read and parse a JSON file, returning `fallback` if it doesn't exist yet
+ */
+export async function readJsonFile<T>(path: string, fallback: T): Promise<T> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new Error(`${path} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/** Temp file + rename, so readers never see a half-written file */
+async function writeAtomically(path: string, text: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  // Unique per write, in case another process writes the same file
+  const temp = `${path}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  try {
+    await writeFile(temp, text, "utf8");
+    await rename(temp, path);
+  } catch (error) {
+    await rm(temp, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Write a text file atomically, creating its directory. Writes to the same
+ * file are serialized.
+ */
+export async function writeTextFile(path: string, text: string): Promise<void> {
+  await withFileLock(path, () => writeAtomically(path, text));
+}
+
+export async function writeJsonFile(path: string, data: unknown): Promise<void> {
+  await writeTextFile(path, JSON.stringify(data, null, 2) + "\n");
+}
+
+/**
+ * Read, change and write back a JSON file. Updates to the same file are
+ * serialized, so concurrent callers each build on the others' changes.
+ */
+export async function updateJsonFile<T>(
+  path: string,
+  fallback: T,
+  update: (data: T) => T | Promise<T>
+): Promise<T> {
+  return withFileLock(path, async () => {
+    const data = await update(await readJsonFile(path, fallback));
+    await writeAtomically(path, JSON.stringify(data, null, 2) + "\n");
+    return data;
+  });
+}
@@ -0,0 +1,127 @@
+/**
+ * Low-stock Thresholds
+ *
+ * A threshold is the quantity at or below which an item needs reordering.
+ * Item thresholds live on the item itself as "Min Quantity" / "Reorder
+ * Quantity" custom fields, so they show up in the HomeBox UI; label
+ * thresholds (HomeBox labels have no custom fields) live in a plugin-local
+ * JSON file and apply to every item carrying the label.
+ */
+
+import type { HomeBoxCustomField, HomeBoxItem } from "./client.js";
+import { readJsonFile, updateJsonFile } from "./storage.js";
+
+export const MIN_QUANTITY_FIELD = "Min Quantity";
+export const REORDER_QUANTITY_FIELD = "Reorder Quantity";
+
+export interface StockThreshold {
+  /** At or below this quantity the item is low */
+  minQuantity: number;
+  /** How many to order; defaults to topping up to twice the minimum */
+  reorderQuantity?: number;
+}
+
+export interface EffectiveThreshold extends StockThreshold {
+  /** "item" or the name of the label the threshold came from */
+  source: string;
+}
+
+interface ThresholdFile {
+  labels: Record<string, StockThreshold>;
+}
+
+function fieldKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function numericField(item: HomeBoxItem, name: string): number | undefined {
+  const field = item.fields?.find((candidate) => fieldKey(candidate.name) === fieldKey(name));
+  if (!field) return undefined;
+  const value = field.type === "number" ? field.numberValue : parseFloat(field.textValue ?? "");
+  return value !== undefined && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Threshold set on the item itself, if any. Needs the full item (summaries
+ * from search don't include custom fields).
+ */
+export function itemThreshold(item: HomeBoxItem): StockThreshold | undefined {
+  const minQuantity = numericField(item, MIN_QUANTITY_FIELD);
+  if (minQuantity === undefined) return undefined;
+  return { minQuantity, reorderQuantity: numericField(item, REORDER_QUANTITY_FIELD) };
+}
+
+/**
+ * The item's custom fields with its threshold replaced (or removed when
+ * `threshold` is null), ready to send as `fields` in an update
+ */
+export function withItemThreshold(
+  item: HomeBoxItem,
+  threshold: StockThreshold | null
+): HomeBoxCustomField[] {
+  const managed = [fieldKey(MIN_QUANTITY_FIELD), fieldKey(REORDER_QUANTITY_FIELD)];
+  const fields = (item.fields ?? []).filter((field) => !managed.includes(fieldKey(field.name)));
+  if (threshold) {
+    fields.push({ name: MIN_QUANTITY_FIELD, type: "text", textValue: String(threshold.minQuantity) });
+    if (threshold.reorderQuantity !== undefined) {
+      fields.push({
+        name: REORDER_QUANTITY_FIELD,
+        type: "text",
+        textValue: String(threshold.reorderQuantity),
+      });
+    }
+  }
+  return fields;
+}
+
+/**
+ * How many to order to get back above the threshold
+ */
+export function suggestedReorderQuantity(quantity: number, threshold: StockThreshold): number {
+  if (threshold.reorderQuantity !== undefined) return threshold.reorderQuantity;
+  return Math.max(threshold.minQuantity * 2 - quantity, 1);
+}
+
+/**
+ * The threshold that applies to `item`: its own if set, otherwise the
+ * strictest (highest minimum) of its labels'
+ */
+export function effectiveThreshold(
+  item: HomeBoxItem,
+  labelThresholds: Map<string, StockThreshold>
+): EffectiveThreshold | undefined {
+  const own = itemThreshold(item);
+  if (own) return { ...own, source: "item" };
+
+  let best: EffectiveThreshold | undefined;
+  for (const label of item.labels ?? []) {
+    const threshold = labelThresholds.get(label.id);
+    if (threshold && (!best || threshold.minQuantity > best.minQuantity)) {
+      best = { ...threshold, source: label.name };
+    }
+  }
+  return best;
+}
+
+export class ThresholdStore {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /** Label ID → threshold */
+  async labelThresholds(): Promise<Map<string, StockThreshold>> {
+    const data = await readJsonFile<ThresholdFile>(this.filePath, { labels: {} });
+    return new Map(Object.entries(data.labels ?? {}));
+  }
+
+  async setLabelThreshold(labelId: string, threshold: StockThreshold | null): Promise<void> {
+    await updateJsonFile<ThresholdFile>(this.filePath, { labels: {} }, (data) => {
+      data.labels = data.labels ?? {};
+      if (threshold) data.labels[labelId] = threshold;
+      else delete data.labels[labelId];
+      return data;
+    });
+  }
+}